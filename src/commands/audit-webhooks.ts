@@ -0,0 +1,301 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  listOrganizationWebhooks,
+  WebhookData,
+  WebhookListStats,
+} from '../utils/webhooks.js';
+
+interface WebhookPolicy {
+  requireSecret?: boolean;
+  requireSecureSSL?: boolean;
+  requireHttps?: boolean;
+  allowedHosts?: string[];
+  forbiddenEvents?: string[];
+}
+
+interface PolicyViolation {
+  webhook: WebhookData;
+  rule: string;
+  detail: string;
+}
+
+const BOOLEAN_POLICY_RULES = [
+  'requireSecret',
+  'requireSecureSSL',
+  'requireHttps',
+] as const;
+const LIST_POLICY_RULES = ['allowedHosts', 'forbiddenEvents'] as const;
+
+/**
+ * Read the policy file, rejecting unknown rules and values of the wrong type
+ * so a typo cannot silently turn a rule off
+ */
+function readPolicy(policyFile: string): WebhookPolicy {
+  const policy = JSON.parse(fs.readFileSync(policyFile, 'utf-8'));
+
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+    throw new Error('Policy file must contain a JSON object');
+  }
+
+  const knownRules: readonly string[] = [
+    ...BOOLEAN_POLICY_RULES,
+    ...LIST_POLICY_RULES,
+  ];
+  const unknownRules = Object.keys(policy).filter(
+    (rule) => !knownRules.includes(rule),
+  );
+  if (unknownRules.length > 0) {
+    throw new Error(
+      `Unknown policy rule(s): ${unknownRules.join(', ')} (expected ${knownRules.join(', ')})`,
+    );
+  }
+
+  for (const rule of BOOLEAN_POLICY_RULES) {
+    if (rule in policy && typeof policy[rule] !== 'boolean') {
+      throw new Error(`"${rule}" must be true or false`);
+    }
+  }
+  for (const rule of LIST_POLICY_RULES) {
+    if (
+      rule in policy &&
+      (!Array.isArray(policy[rule]) ||
+        !policy[rule].every((value: unknown) => typeof value === 'string'))
+    ) {
+      throw new Error(`"${rule}" must be an array of strings`);
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Match a host against an allow-list entry, supporting a leading "*." wildcard
+ */
+function hostMatches(host: string, allowedHost: string): boolean {
+  const pattern = allowedHost.toLowerCase();
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+function checkWebhook(
+  webhook: WebhookData,
+  policy: WebhookPolicy,
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const violation = (rule: string, detail: string) =>
+    violations.push({ webhook, rule, detail });
+
+  if (policy.requireSecret && !webhook.hasSecret) {
+    violation('requireSecret', 'Webhook has no secret configured');
+  }
+
+  if (policy.requireSecureSSL && webhook.insecureSSL !== '0') {
+    violation(
+      'requireSecureSSL',
+      `insecure_ssl is ${webhook.insecureSSL ?? 'not set'}`,
+    );
+  }
+
+  let url: URL | null = null;
+  try {
+    url = new URL(webhook.url);
+  } catch {
+    violation('validUrl', `URL cannot be parsed: ${webhook.url}`);
+  }
+
+  if (url) {
+    if (policy.requireHttps && url.protocol !== 'https:') {
+      violation('requireHttps', `URL uses ${url.protocol}`);
+    }
+
+    const host = url.hostname.toLowerCase();
+    if (
+      policy.allowedHosts &&
+      !policy.allowedHosts.some((allowed) => hostMatches(host, allowed))
+    ) {
+      violation('allowedHosts', `Host ${host} is not on the allow-list`);
+    }
+  }
+
+  if (policy.forbiddenEvents) {
+    const forbidden = webhook.events.filter((event) =>
+      policy.forbiddenEvents!.includes(event),
+    );
+    if (forbidden.length > 0) {
+      violation(
+        'forbiddenEvents',
+        `Subscribed to forbidden events: ${forbidden.join(';')}`,
+      );
+    }
+  }
+
+  return violations;
+}
+
+const auditWebhooksCommand = createBaseCommand({
+  name: 'audit-webhooks',
+  description:
+    'Audit organization and repository webhooks against a security policy file',
+})
+  .addOption(
+    new Option(
+      '--policy-file <policyFile>',
+      'Path to the JSON policy file describing the rules to check',
+    )
+      .env('WEBHOOK_POLICY_FILE')
+      .makeOptionMandatory(),
+  )
+  .addOption(
+    new Option(
+      '--csv-output <csvOutput>',
+      'Path to write the violations CSV file',
+    )
+      .env('CSV_OUTPUT')
+      .default('./webhook-policy-violations.csv'),
+  )
+  .addOption(
+    new Option(
+      '--scope <scope>',
+      'Which webhooks to include: organization hooks, repository hooks, or both',
+    )
+      .choices(['org', 'repo', 'all'])
+      .env('WEBHOOK_SCOPE')
+      .default('all'),
+  )
+  .addOption(
+    new Option(
+      '--only-active-repos [onlyActiveRepos]',
+      'Only include active repositories in the check',
+    )
+      .env('ONLY_ACTIVE_REPOS')
+      .default(true)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting webhook audit...');
+
+      let policy: WebhookPolicy;
+      try {
+        policy = readPolicy(options.policyFile);
+      } catch (error: any) {
+        logger.error(
+          `Error reading policy file ${options.policyFile}: ${error.message}`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const violations: PolicyViolation[] = [];
+      const stats: WebhookListStats = { processedRepos: 0, failures: [] };
+      let auditedCount = 0;
+
+      for await (const webhook of listOrganizationWebhooks(
+        octokit,
+        opts.orgName,
+        {
+          scope: options.scope,
+          onlyActiveRepos: options.onlyActiveRepos,
+          onlyActiveWebhooks: false,
+        },
+        logger,
+        stats,
+      )) {
+        auditedCount++;
+        violations.push(...checkWebhook(webhook, policy));
+      }
+
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      const csvHeaders = [
+        'Type',
+        'Organization',
+        'Repository',
+        'Webhook ID',
+        'URL',
+        'Rule',
+        'Detail',
+      ];
+
+      fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
+
+      for (const violation of violations) {
+        const csvRow = [
+          violation.webhook.type,
+          violation.webhook.organizationName,
+          violation.webhook.repositoryName || '',
+          violation.webhook.id,
+          `"${violation.webhook.url}"`,
+          violation.rule,
+          `"${violation.detail}"`,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+
+      // Hooks that could not be listed were not audited, so record them too
+      for (const failure of stats.failures) {
+        const csvRow = [
+          failure.type,
+          opts.orgName,
+          failure.repositoryName || '',
+          '',
+          '',
+          'notAudited',
+          `"${failure.message.replace(/"/g, '""')}"`,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+
+      // Summary by rule
+      const ruleCounts = new Map<string, number>();
+      for (const violation of violations) {
+        ruleCounts.set(
+          violation.rule,
+          (ruleCounts.get(violation.rule) || 0) + 1,
+        );
+      }
+      const violatingHooks = new Set(
+        violations.map((v) => `${v.webhook.type}:${v.webhook.id}`),
+      );
+
+      logger.info('=== Webhook Audit Summary ===');
+      logger.info(`Webhooks audited: ${auditedCount}`);
+      logger.info(`Webhooks with violations: ${violatingHooks.size}`);
+      logger.info(`Total violations: ${violations.length}`);
+      for (const [rule, count] of ruleCounts) {
+        logger.info(`  ${rule}: ${count}`);
+      }
+      logger.info(`Violations report written to ${csvFilename}`);
+
+      if (stats.failures.length > 0) {
+        logger.error(
+          `Webhooks could not be listed for ${stats.failures.length} target(s), they were not audited:`,
+        );
+        for (const failure of stats.failures) {
+          logger.error(
+            `  ${failure.repositoryName || `organization ${opts.orgName}`}: ${failure.message}`,
+          );
+        }
+        process.exitCode = 1;
+      }
+
+      if (violations.length > 0) {
+        logger.error('Webhook policy violations found');
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default auditWebhooksCommand;
@@ -0,0 +1,276 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { parse } from 'csv-parse/sync';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getTeamMembers,
+  listOrganizationTeams,
+  TeamDetails,
+  TeamMember,
+} from '../utils/teams.js';
+
+import { Option } from 'commander';
+
+type DifferenceCategory =
+  | 'missing-team'
+  | 'extra-team'
+  | 'parent-mismatch'
+  | 'missing-member'
+  | 'extra-member'
+  | 'role-mismatch'
+  | 'comparison-failed';
+
+interface TeamDifference {
+  category: DifferenceCategory;
+  teamSlug: string;
+  sourceValue: string;
+  targetValue: string;
+}
+
+/**
+ * Read a source login to target login mapping from a two column CSV
+ * @returns Map of lowercase source login to target login
+ */
+function readUserMapping(mappingFile: string): Map<string, string> {
+  const records: string[][] = parse(fs.readFileSync(mappingFile, 'utf-8'), {
+    trim: true,
+    skip_empty_lines: true,
+    columns: false,
+  });
+
+  const mapping = new Map<string, string>();
+  for (const [source, target] of records) {
+    // Allow an optional header row
+    if (!source || !target || source.toLowerCase() === 'source') continue;
+    mapping.set(source.toLowerCase(), target);
+  }
+  return mapping;
+}
+
+const compareTeamsCommand = createBaseCommand({
+  name: 'compare-teams',
+  description:
+    'Compare teams, hierarchy and memberships between a source and a target organization',
+})
+  .addOption(
+    new Option(
+      '--target-org <targetOrg>',
+      'Organization the teams were recreated in (the source is --org-name)',
+    )
+      .env('TARGET_ORG')
+      .makeOptionMandatory(),
+  )
+  .addOption(
+    new Option(
+      '--user-mapping-file <userMappingFile>',
+      'CSV of source login,target login pairs for users whose login changed',
+    ).env('USER_MAPPING_FILE'),
+  )
+  .addOption(
+    new Option(
+      '--login-suffix <loginSuffix>',
+      'Suffix appended to unmapped source logins in the target, e.g. _shortcode for EMU',
+    ).env('LOGIN_SUFFIX'),
+  )
+  .addOption(
+    new Option('--csv-output <csvOutput>', 'Path to write CSV output file')
+      .env('CSV_OUTPUT')
+      .default('./team-comparison.csv'),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      const sourceOrg = opts.orgName;
+      const targetOrg = options.targetOrg;
+
+      logger.info(`Comparing teams in ${sourceOrg} with ${targetOrg}...`);
+
+      const userMapping = options.userMappingFile
+        ? readUserMapping(options.userMappingFile)
+        : new Map<string, string>();
+      if (options.userMappingFile) {
+        logger.info(
+          `Loaded ${userMapping.size} user mapping(s) from ${options.userMappingFile}`,
+        );
+      }
+
+      const toTargetLogin = (login: string) =>
+        (
+          userMapping.get(login.toLowerCase()) ||
+          `${login}${options.loginSuffix || ''}`
+        ).toLowerCase();
+
+      const sourceTeams = await listOrganizationTeams(octokit, sourceOrg);
+      const targetTeams = await listOrganizationTeams(octokit, targetOrg);
+      logger.info(
+        `Found ${sourceTeams.length} source team(s) and ${targetTeams.length} target team(s)`,
+      );
+
+      // Match teams by slug, falling back to the display name
+      const findTargetTeam = (team: TeamDetails) =>
+        targetTeams.find((t) => t.slug === team.slug) ||
+        targetTeams.find(
+          (t) => t.name.toLowerCase() === team.name.toLowerCase(),
+        );
+
+      const differences: TeamDifference[] = [];
+      const matchedTargetSlugs = new Set<string>();
+      const teamMap = new Map<string, TeamMember[]>();
+      const targetTeamMap = new Map<string, TeamMember[]>();
+
+      for (const sourceTeam of sourceTeams) {
+        const targetTeam = findTargetTeam(sourceTeam);
+        if (!targetTeam) {
+          differences.push({
+            category: 'missing-team',
+            teamSlug: sourceTeam.slug,
+            sourceValue: sourceTeam.name,
+            targetValue: '',
+          });
+          continue;
+        }
+        matchedTargetSlugs.add(targetTeam.slug);
+
+        // Hierarchy: the target parent should be the match of the source parent
+        const sourceParent = sourceTeams.find(
+          (t) => t.slug === sourceTeam.parentSlug,
+        );
+        const expectedParentSlug = sourceParent
+          ? findTargetTeam(sourceParent)?.slug || sourceParent.slug
+          : null;
+        if (expectedParentSlug !== targetTeam.parentSlug) {
+          differences.push({
+            category: 'parent-mismatch',
+            teamSlug: sourceTeam.slug,
+            sourceValue: sourceTeam.parentSlug || '',
+            targetValue: targetTeam.parentSlug || '',
+          });
+        }
+
+        // Direct members only, inherited access is covered by the hierarchy check
+        try {
+          const sourceMembers = await getTeamMembers(
+            octokit,
+            sourceOrg,
+            sourceTeam.slug,
+            sourceTeam.name,
+            teamMap,
+            logger,
+            'immediate',
+          );
+          const targetMembers = await getTeamMembers(
+            octokit,
+            targetOrg,
+            targetTeam.slug,
+            targetTeam.name,
+            targetTeamMap,
+            logger,
+            'immediate',
+          );
+
+          const targetByLogin = new Map(
+            targetMembers.map((m) => [m.login.toLowerCase(), m]),
+          );
+
+          for (const member of sourceMembers) {
+            const expectedLogin = toTargetLogin(member.login);
+            const targetMember = targetByLogin.get(expectedLogin);
+            if (!targetMember) {
+              differences.push({
+                category: 'missing-member',
+                teamSlug: sourceTeam.slug,
+                sourceValue: member.login,
+                targetValue: expectedLogin,
+              });
+              continue;
+            }
+            targetByLogin.delete(expectedLogin);
+
+            if (member.role !== targetMember.role) {
+              differences.push({
+                category: 'role-mismatch',
+                teamSlug: sourceTeam.slug,
+                sourceValue: `${member.login}:${member.role}`,
+                targetValue: `${targetMember.login}:${targetMember.role}`,
+              });
+            }
+          }
+
+          for (const extraMember of targetByLogin.values()) {
+            differences.push({
+              category: 'extra-member',
+              teamSlug: sourceTeam.slug,
+              sourceValue: '',
+              targetValue: extraMember.login,
+            });
+          }
+        } catch (error: any) {
+          // Record the team so an unread team is not reported as matching
+          logger.error(
+            `Error comparing members for team ${sourceTeam.slug}: ${error.message}`,
+          );
+          differences.push({
+            category: 'comparison-failed',
+            teamSlug: sourceTeam.slug,
+            sourceValue: error.message,
+            targetValue: '',
+          });
+        }
+      }
+
+      for (const targetTeam of targetTeams) {
+        if (!matchedTargetSlugs.has(targetTeam.slug)) {
+          differences.push({
+            category: 'extra-team',
+            teamSlug: targetTeam.slug,
+            sourceValue: '',
+            targetValue: targetTeam.name,
+          });
+        }
+      }
+
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      fs.writeFileSync(
+        csvFilename,
+        'Source Organization,Target Organization,Category,Team Slug,Source Value,Target Value\n',
+      );
+      for (const difference of differences) {
+        const csvRow = [
+          sourceOrg,
+          targetOrg,
+          difference.category,
+          difference.teamSlug,
+          `"${difference.sourceValue.replace(/"/g, '""')}"`,
+          `"${difference.targetValue.replace(/"/g, '""')}"`,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+
+      const countByCategory = (category: DifferenceCategory) =>
+        differences.filter((d) => d.category === category).length;
+
+      logger.info('=== Team Comparison Summary ===');
+      logger.info(`Source teams: ${sourceTeams.length}`);
+      logger.info(`Target teams: ${targetTeams.length}`);
+      logger.info(`Missing teams: ${countByCategory('missing-team')}`);
+      logger.info(`Extra teams: ${countByCategory('extra-team')}`);
+      logger.info(`Parent mismatches: ${countByCategory('parent-mismatch')}`);
+      logger.info(`Missing members: ${countByCategory('missing-member')}`);
+      logger.info(`Extra members: ${countByCategory('extra-member')}`);
+      logger.info(`Role mismatches: ${countByCategory('role-mismatch')}`);
+      logger.info(
+        `Teams that could not be compared: ${countByCategory('comparison-failed')}`,
+      );
+      logger.info(`Differences written to ${csvFilename}`);
+
+      if (differences.length > 0) {
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default compareTeamsCommand;
@@ -0,0 +1,299 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { confirmAction, parseIntegerOption } from '../utils.js';
+import { MIGRATION_STATES } from '../utils/migrations.js';
+
+interface SelectedMigration {
+  id: number;
+  state: string;
+  createdAt: string;
+  repositories: string[];
+}
+
+type DeleteResult = 'deleted' | 'dry-run' | 'not-found' | 'failed';
+
+// Migrations still in progress have no archive yet, they are only selected with an explicit --state
+const DEFAULT_STATES = ['exported', 'failed'];
+
+const CSV_HEADER =
+  'Organization,Migration ID,State,Created At,Repositories,Result,Deleted At,Message\n';
+
+function toSelectedMigration(migration: any): SelectedMigration {
+  return {
+    id: migration.id,
+    state: migration.state,
+    createdAt: migration.created_at,
+    repositories: (migration.repositories || []).map((repo: any) => repo.name),
+  };
+}
+
+async function deleteArchive(
+  octokit: any,
+  orgName: string,
+  migrationId: number,
+): Promise<{ result: DeleteResult; message: string }> {
+  try {
+    await octokit.rest.migrations.deleteArchiveForOrg({
+      org: orgName,
+      migration_id: migrationId,
+    });
+    return { result: 'deleted', message: '' };
+  } catch (error: any) {
+    if (error.status === 404 || error.status === 410) {
+      return {
+        result: 'not-found',
+        message: 'Archive was already deleted or has expired',
+      };
+    }
+    return { result: 'failed', message: error.message };
+  }
+}
+
+const deleteMigrationArchivesCommand = createBaseCommand({
+  name: 'delete-migration-archives',
+  description:
+    'Delete organization migration archives selected by ID, state or age',
+})
+  .addOption(
+    new Option(
+      '--migration-ids <migrationIds>',
+      'Comma-separated list of migration IDs whose archives should be deleted',
+    ).env('MIGRATION_IDS'),
+  )
+  .addOption(
+    new Option(
+      '--state <state>',
+      `Comma-separated list of states to select (${MIGRATION_STATES.join(', ')}, defaults to ${DEFAULT_STATES.join(', ')})`,
+    ).env('MIGRATION_STATE'),
+  )
+  .addOption(
+    new Option(
+      '--older-than-days <olderThanDays>',
+      'Select migrations created more than this many days ago',
+    ).env('OLDER_THAN_DAYS'),
+  )
+  .addOption(
+    new Option(
+      '--csv-output <csvOutput>',
+      'Path of the CSV record of deleted archives, appended to when it already exists',
+    )
+      .env('CSV_OUTPUT')
+      .default('./deleted-migration-archives.csv'),
+  )
+  .addOption(
+    new Option(
+      '--yes',
+      'Delete without asking for confirmation (required outside a terminal)',
+    ),
+  )
+  .addOption(
+    new Option('--dry-run [dryRun]', 'Only list the archives to delete')
+      .env('DRY_RUN')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting...');
+
+      if (!options.migrationIds && !options.state && !options.olderThanDays) {
+        logger.error(
+          'Select archives with --migration-ids, --state and/or --older-than-days',
+        );
+        return;
+      }
+
+      const states: string[] = options.state
+        ? options.state.split(',').map((state: string) => state.trim())
+        : [];
+      const invalidStates = states.filter((s) => !MIGRATION_STATES.includes(s));
+      if (invalidStates.length > 0) {
+        logger.error(`Invalid --state value(s): ${invalidStates.join(', ')}`);
+        return;
+      }
+
+      const olderThanDays = options.olderThanDays
+        ? parseIntegerOption(options.olderThanDays, 0)
+        : null;
+      if (options.olderThanDays && olderThanDays === null) {
+        logger.error(
+          `Invalid --older-than-days: ${options.olderThanDays} (expected an integer of 0 or more)`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const cutoff =
+        olderThanDays !== null
+          ? Date.now() - olderThanDays * 24 * 60 * 60 * 1000
+          : null;
+
+      const selected: SelectedMigration[] = [];
+      const lookupFailures: { id: number; message: string }[] = [];
+
+      if (options.migrationIds) {
+        const ids = options.migrationIds
+          .split(',')
+          .map((id: string) => parseInt(id.trim(), 10));
+        if (ids.some((id: number) => isNaN(id))) {
+          logger.error(`Invalid --migration-ids: ${options.migrationIds}`);
+          return;
+        }
+
+        for (const id of ids) {
+          try {
+            const { data: migration } =
+              await octokit.rest.migrations.getStatusForOrg({
+                org: opts.orgName,
+                migration_id: id,
+              });
+            selected.push(toSelectedMigration(migration));
+          } catch (error: any) {
+            logger.error(`Could not look up migration ${id}: ${error.message}`);
+            lookupFailures.push({ id, message: error.message });
+          }
+        }
+      } else {
+        const migrationsIterator = octokit.paginate.iterator(
+          octokit.rest.migrations.listForOrg,
+          {
+            org: opts.orgName,
+            per_page: 100,
+          },
+        );
+
+        for await (const { data: migrations } of migrationsIterator) {
+          for (const migration of migrations) {
+            selected.push(toSelectedMigration(migration));
+          }
+        }
+      }
+
+      // State and age filters also narrow an explicit ID list
+      const selectedStates = states.length > 0 ? states : DEFAULT_STATES;
+      const migrations = selected.filter((migration) => {
+        if (!selectedStates.includes(migration.state)) {
+          if (options.migrationIds) {
+            logger.warn(
+              `Skipping migration ${migration.id}, its state is ${migration.state}`,
+            );
+          }
+          return false;
+        }
+        return (
+          cutoff === null || new Date(migration.createdAt).getTime() < cutoff
+        );
+      });
+
+      if (migrations.length === 0 && lookupFailures.length === 0) {
+        logger.info('No migration archives selected');
+        logger.info('Finished');
+        return;
+      }
+
+      logger.info(`Migration archives to delete: ${migrations.length}`);
+      for (const migration of migrations) {
+        logger.info(
+          `  ${migration.id} (${migration.state}, created ${migration.createdAt}, ${migration.repositories.length} repositories)`,
+        );
+      }
+
+      if (migrations.length > 0 && !options.dryRun && !options.yes) {
+        if (!process.stdin.isTTY) {
+          logger.error(
+            'Not running in an interactive terminal, pass --yes to delete without confirmation',
+          );
+          process.exitCode = 1;
+          return;
+        }
+        if (
+          !(await confirmAction(
+            `Delete ${migrations.length} migration archive(s)?`,
+          ))
+        ) {
+          logger.info('Aborted, no archives were deleted');
+          return;
+        }
+      }
+
+      // The record is kept across runs, and a dry run never touches it
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      const appendRow = (columns: (string | number)[]) => {
+        if (options.dryRun) return;
+        if (!fs.existsSync(csvFilename)) {
+          fs.writeFileSync(csvFilename, CSV_HEADER);
+        }
+        fs.appendFileSync(csvFilename, columns.join(',') + '\n');
+      };
+
+      const results: DeleteResult[] = [];
+      for (const { id, message } of lookupFailures) {
+        results.push('failed');
+        appendRow([
+          opts.orgName,
+          id,
+          '',
+          '',
+          '""',
+          'failed',
+          '',
+          `"${message.replace(/"/g, '""')}"`,
+        ]);
+      }
+
+      for (const migration of migrations) {
+        const { result, message } = options.dryRun
+          ? { result: 'dry-run' as const, message: '' }
+          : await deleteArchive(octokit, opts.orgName, migration.id);
+
+        if (result === 'deleted') {
+          logger.info(`Deleted archive for migration ${migration.id}`);
+        } else if (result === 'failed') {
+          logger.error(
+            `Failed to delete archive for migration ${migration.id}: ${message}`,
+          );
+        }
+
+        results.push(result);
+        appendRow([
+          opts.orgName,
+          migration.id,
+          migration.state,
+          migration.createdAt,
+          `"${migration.repositories.join(';')}"`,
+          result,
+          result === 'deleted' ? new Date().toISOString() : '',
+          `"${message.replace(/"/g, '""')}"`,
+        ]);
+      }
+
+      const countByResult = (result: DeleteResult) =>
+        results.filter((r) => r === result).length;
+
+      logger.info('=== Migration Archive Deletion Summary ===');
+      if (options.dryRun) {
+        logger.info(`Dry run, ${countByResult('dry-run')} archive(s) listed`);
+        logger.info(`Lookups failed: ${lookupFailures.length}`);
+      } else {
+        logger.info(`Deleted: ${countByResult('deleted')}`);
+        logger.info(`Already gone: ${countByResult('not-found')}`);
+        logger.info(`Failed: ${countByResult('failed')}`);
+        logger.info(`Record written to ${csvFilename}`);
+      }
+
+      if (countByResult('failed') > 0) {
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default deleteMigrationArchivesCommand;
@@ -0,0 +1,127 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  listOrganizationWebhooks,
+  toWebhookDefinition,
+  WebhookListStats,
+  WebhookManifest,
+} from '../utils/webhooks.js';
+
+const exportWebhooksCommand = createBaseCommand({
+  name: 'export-webhooks',
+  description:
+    'Export organization and repository webhook definitions to a JSON manifest',
+})
+  .addOption(
+    new Option(
+      '--manifest-output <manifestOutput>',
+      'Path to write the JSON manifest file',
+    )
+      .env('WEBHOOK_MANIFEST')
+      .default('./webhooks-manifest.json'),
+  )
+  .addOption(
+    new Option(
+      '--scope <scope>',
+      'Which webhooks to include: organization hooks, repository hooks, or both',
+    )
+      .choices(['org', 'repo', 'all'])
+      .env('WEBHOOK_SCOPE')
+      .default('all'),
+  )
+  .addOption(
+    new Option(
+      '--only-active-repos [onlyActiveRepos]',
+      'Only include active repositories in the export',
+    )
+      .env('ONLY_ACTIVE_REPOS')
+      .default(true)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting webhook export...');
+
+      const manifest: WebhookManifest = {
+        organization: opts.orgName,
+        exportedAt: new Date().toISOString(),
+        organizationWebhooks: [],
+        repositories: {},
+      };
+
+      const stats: WebhookListStats = { processedRepos: 0, failures: [] };
+      let count = 0;
+      let withSecret = 0;
+
+      for await (const webhook of listOrganizationWebhooks(
+        octokit,
+        opts.orgName,
+        {
+          scope: options.scope,
+          onlyActiveRepos: options.onlyActiveRepos,
+          onlyActiveWebhooks: false,
+        },
+        logger,
+        stats,
+      )) {
+        const definition = toWebhookDefinition(webhook);
+
+        if (webhook.type === 'Organization') {
+          manifest.organizationWebhooks.push(definition);
+        } else {
+          const repoName = webhook.repositoryName!;
+          if (!manifest.repositories[repoName]) {
+            manifest.repositories[repoName] = [];
+          }
+          manifest.repositories[repoName].push(definition);
+        }
+
+        count++;
+        if (webhook.hasSecret) withSecret++;
+      }
+
+      const manifestFilename = path.resolve(
+        process.cwd(),
+        options.manifestOutput,
+      );
+      fs.writeFileSync(manifestFilename, JSON.stringify(manifest, null, 2));
+
+      logger.info(`Exported ${count} webhooks to ${manifestFilename}`);
+      logger.info(
+        `Organization webhooks: ${manifest.organizationWebhooks.length}`,
+      );
+      logger.info(
+        `Repositories with webhooks: ${Object.keys(manifest.repositories).length}`,
+      );
+      if (withSecret > 0) {
+        logger.warn(
+          `${withSecret} webhook(s) use a secret. GitHub does not return secrets, so supply them to import-webhooks with --secrets-file`,
+        );
+      }
+
+      // Hooks that could not be listed are missing from the manifest
+      if (stats.failures.length > 0) {
+        logger.error(
+          `Webhooks could not be listed for ${stats.failures.length} target(s), the manifest is incomplete:`,
+        );
+        for (const failure of stats.failures) {
+          logger.error(
+            `  ${failure.repositoryName || `organization ${opts.orgName}`}: ${failure.message}`,
+          );
+        }
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default exportWebhooksCommand;
@@ -0,0 +1,317 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import {
+  listOrganizationWebhooks,
+  WebhookDefinition,
+  WebhookListStats,
+  WebhookManifest,
+  WebhookScope,
+} from '../utils/webhooks.js';
+
+/**
+ * Check that a webhook definition has the fields needed to recreate it
+ */
+function validateDefinition(
+  definition: unknown,
+  location: string,
+): asserts definition is WebhookDefinition {
+  if (typeof definition !== 'object' || definition === null) {
+    throw new Error(`${location} must be an object`);
+  }
+  const fields = definition as Record<string, unknown>;
+  if (typeof fields.url !== 'string' || !fields.url) {
+    throw new Error(`${location} is missing "url"`);
+  }
+  if (
+    !Array.isArray(fields.events) ||
+    !fields.events.every((event) => typeof event === 'string')
+  ) {
+    throw new Error(`${location} "events" must be an array of event names`);
+  }
+  if (typeof fields.active !== 'boolean') {
+    throw new Error(`${location} "active" must be true or false`);
+  }
+  if (typeof fields.hasSecret !== 'boolean') {
+    throw new Error(`${location} "hasSecret" must be true or false`);
+  }
+}
+
+/**
+ * Read a manifest written by export-webhooks, rejecting anything that does
+ * not have its shape before any webhook is created
+ */
+function readManifest(manifestFile: string): WebhookManifest {
+  const manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf-8'));
+
+  if (typeof manifest !== 'object' || manifest === null) {
+    throw new Error('Manifest must contain a JSON object');
+  }
+  if (typeof manifest.organization !== 'string') {
+    throw new Error('Manifest is missing "organization"');
+  }
+  if (!Array.isArray(manifest.organizationWebhooks)) {
+    throw new Error('Manifest "organizationWebhooks" must be an array');
+  }
+  if (
+    typeof manifest.repositories !== 'object' ||
+    manifest.repositories === null ||
+    Array.isArray(manifest.repositories)
+  ) {
+    throw new Error(
+      'Manifest "repositories" must be an object keyed by repository name',
+    );
+  }
+
+  manifest.organizationWebhooks.forEach((definition: unknown, index: number) =>
+    validateDefinition(definition, `organizationWebhooks[${index}]`),
+  );
+  for (const [repoName, definitions] of Object.entries(manifest.repositories)) {
+    if (!Array.isArray(definitions)) {
+      throw new Error(`repositories.${repoName} must be an array`);
+    }
+    definitions.forEach((definition: unknown, index: number) =>
+      validateDefinition(definition, `repositories.${repoName}[${index}]`),
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Read secrets keyed by source webhook ID or webhook URL
+ */
+function readSecrets(secretsFile: string): Record<string, string> {
+  const data = JSON.parse(fs.readFileSync(secretsFile, 'utf-8'));
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(
+      'Secrets file must contain a JSON object keyed by webhook ID or URL',
+    );
+  }
+  return data;
+}
+
+function webhookKey(repositoryName: string | undefined, url: string): string {
+  return `${repositoryName || ''}|${url}`;
+}
+
+const importWebhooksCommand = createBaseCommand({
+  name: 'import-webhooks',
+  description:
+    'Recreate webhooks from a manifest written by export-webhooks in the target organization',
+})
+  .addOption(
+    new Option(
+      '--manifest-file <manifestFile>',
+      'Path to the JSON manifest written by export-webhooks',
+    )
+      .env('WEBHOOK_MANIFEST')
+      .makeOptionMandatory(),
+  )
+  .addOption(
+    new Option(
+      '--secrets-file <secretsFile>',
+      'Path to a local JSON file of webhook secrets keyed by source webhook ID or URL',
+    ).env('WEBHOOK_SECRETS_FILE'),
+  )
+  .addOption(
+    new Option(
+      '--allow-missing-secrets [allowMissingSecrets]',
+      'Create webhooks that had a secret in the source without one when no secret is supplied, instead of skipping them',
+    )
+      .env('ALLOW_MISSING_SECRETS')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .addOption(
+    new Option(
+      '--dry-run [dryRun]',
+      'Only log the webhooks that would be created',
+    )
+      .env('DRY_RUN')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting webhook import...');
+
+      let manifest: WebhookManifest;
+      let secrets: Record<string, string> = {};
+      try {
+        manifest = readManifest(options.manifestFile);
+        if (options.secretsFile) {
+          secrets = readSecrets(options.secretsFile);
+        }
+      } catch (error: any) {
+        logger.error(`Error reading input files: ${error.message}`);
+        return;
+      }
+
+      if (options.dryRun) {
+        logger.info('Dry run enabled, no webhooks will be created');
+      }
+
+      logger.info(
+        `Importing webhooks exported from ${manifest.organization} into ${opts.orgName}`,
+      );
+
+      const repoNames = Object.keys(manifest.repositories);
+      const hasOrgHooks = manifest.organizationWebhooks.length > 0;
+      const scope: WebhookScope =
+        hasOrgHooks && repoNames.length > 0
+          ? 'all'
+          : hasOrgHooks
+            ? 'org'
+            : 'repo';
+
+      // Collect hooks that already exist in the target so the import is idempotent
+      const existing = new Set<string>();
+      const stats: WebhookListStats = { processedRepos: 0, failures: [] };
+      for await (const webhook of listOrganizationWebhooks(
+        octokit,
+        opts.orgName,
+        {
+          scope,
+          onlyActiveRepos: false,
+          onlyActiveWebhooks: false,
+        },
+        logger,
+        stats,
+      )) {
+        existing.add(webhookKey(webhook.repositoryName, webhook.url));
+      }
+
+      // Hooks that could not be listed may already exist, creating them again would duplicate them
+      if (stats.failures.some((failure) => failure.type === 'Organization')) {
+        logger.error(
+          'Existing organization webhooks could not be listed, aborting the import',
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const unlistedRepos = new Set(
+        stats.failures.map((failure) => failure.repositoryName),
+      );
+
+      let created = 0;
+      let skipped = 0;
+      let failed = 0;
+      let missingSecrets = 0;
+
+      const importWebhook = async (
+        definition: WebhookDefinition,
+        repositoryName?: string,
+      ) => {
+        const label = repositoryName
+          ? `${repositoryName} webhook ${definition.url}`
+          : `org webhook ${definition.url}`;
+
+        if (repositoryName && unlistedRepos.has(repositoryName)) {
+          logger.error(
+            `Skipping ${label}, existing webhooks in ${repositoryName} could not be listed`,
+          );
+          failed++;
+          return;
+        }
+
+        if (existing.has(webhookKey(repositoryName, definition.url))) {
+          logger.info(`Skipping existing ${label}`);
+          skipped++;
+          return;
+        }
+
+        const secret =
+          secrets[String(definition.id)] ?? secrets[definition.url];
+        if (definition.hasSecret && !secret) {
+          missingSecrets++;
+          if (!options.allowMissingSecrets) {
+            logger.error(
+              `Skipping ${label}, it has a secret in the source but none was supplied (use --allow-missing-secrets to create it without one)`,
+            );
+            return;
+          }
+          logger.warn(
+            `No secret supplied for ${label}, it will be created without one`,
+          );
+        }
+
+        if (options.dryRun) {
+          logger.info(`Would create ${label}`);
+          return;
+        }
+
+        const config = {
+          url: definition.url,
+          content_type: definition.contentType,
+          insecure_ssl: definition.insecureSSL,
+          ...(secret ? { secret } : {}),
+        };
+
+        try {
+          if (repositoryName) {
+            await octokit.rest.repos.createWebhook({
+              owner: opts.orgName,
+              repo: repositoryName,
+              name: 'web',
+              active: definition.active,
+              events: definition.events,
+              config,
+            });
+          } else {
+            await octokit.rest.orgs.createWebhook({
+              org: opts.orgName,
+              name: 'web',
+              active: definition.active,
+              events: definition.events,
+              config,
+            });
+          }
+
+          existing.add(webhookKey(repositoryName, definition.url));
+          created++;
+          logger.info(`Created ${label}`);
+        } catch (error: any) {
+          failed++;
+          logger.error(`Failed to create ${label}: ${error.message}`);
+        }
+      };
+
+      for (const definition of manifest.organizationWebhooks) {
+        await importWebhook(definition);
+      }
+
+      for (const repoName of repoNames) {
+        for (const definition of manifest.repositories[repoName]) {
+          await importWebhook(definition, repoName);
+        }
+      }
+
+      logger.info('=== Webhook Import Summary ===');
+      logger.info(`Webhooks created: ${created}`);
+      logger.info(`Webhooks skipped (already exist): ${skipped}`);
+      logger.info(`Webhooks failed: ${failed}`);
+      logger.info(
+        options.allowMissingSecrets
+          ? `Webhooks created without their secret: ${missingSecrets}`
+          : `Webhooks skipped (missing secret): ${missingSecrets}`,
+      );
+
+      if (failed > 0 || (missingSecrets > 0 && !options.allowMissingSecrets)) {
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default importWebhooksCommand;
@@ -0,0 +1,345 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  cleanupFiles,
+  computeFileSha256,
+  downloadFile,
+  ensureDirectoryExists,
+  getDownloadOptions,
+  readArchiveEntries,
+} from '../utils/file.js';
+import {
+  getMigrationArchiveUrl,
+  normalizeMigrationErrors,
+} from '../utils/migrations.js';
+
+interface ArchiveManifest {
+  source: string;
+  inspectedAt: string;
+  sha256: string;
+  schemaVersion: string | null;
+  // Number of records per model, taken from the data file names (issues_000001.json -> issues)
+  recordCounts: Record<string, number>;
+  dataFiles: number;
+  attachments: { count: number; bytes: number };
+  gitRepositories: { count: number; bytes: number };
+  repositories: string[];
+  errors: string[];
+  anomalies: string[];
+}
+
+// Data files are named <model>_<sequence>.json
+const DATA_FILE_PATTERN = /^([a-z_]+?)_\d+\.json$/;
+
+// Git data is stored as bare repositories under repositories/<owner>/<name>.git
+const GIT_REPOSITORY_PATTERN = /^repositories\/([^/]+)\/([^/]+)\.git(\/|$)/;
+
+// Data files are read into memory one at a time, anything larger is reported as an error
+const MAX_DATA_FILE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Get owner/name from the url of a repository record
+ */
+function repositoryNameFromRecord(record: any): string | null {
+  if (typeof record.url === 'string') {
+    try {
+      return new URL(record.url).pathname.replace(/^\/|\/$/g, '');
+    } catch {
+      // Fall back to the name below
+    }
+  }
+  return typeof record.name === 'string' ? record.name : null;
+}
+
+/**
+ * Count the records in a data file and note anything unexpected about them
+ */
+function inspectDataFile(
+  manifest: ArchiveManifest,
+  fileName: string,
+  model: string,
+  content: Buffer,
+): void {
+  manifest.dataFiles++;
+  manifest.recordCounts[model] = manifest.recordCounts[model] || 0;
+
+  let records: any;
+  try {
+    records = JSON.parse(content.toString('utf-8'));
+  } catch {
+    manifest.anomalies.push(`${fileName} is not valid JSON`);
+    return;
+  }
+
+  if (!Array.isArray(records)) {
+    manifest.anomalies.push(`${fileName} does not contain an array of records`);
+    return;
+  }
+
+  manifest.recordCounts[model] += records.length;
+
+  const types = new Set<string>();
+  let missingType = 0;
+  let missingUrl = 0;
+  for (const record of records) {
+    if (typeof record?.type === 'string') {
+      types.add(record.type);
+    } else {
+      missingType++;
+    }
+    if (typeof record?.url !== 'string') {
+      missingUrl++;
+    }
+
+    if (model === 'repositories') {
+      const name = repositoryNameFromRecord(record);
+      if (name) manifest.repositories.push(name);
+    }
+  }
+
+  if (missingType > 0) {
+    manifest.anomalies.push(
+      `${fileName} has ${missingType} record(s) without a type`,
+    );
+  }
+  if (missingUrl > 0) {
+    manifest.anomalies.push(
+      `${fileName} has ${missingUrl} record(s) without a url`,
+    );
+  }
+  if (types.size > 1) {
+    manifest.anomalies.push(
+      `${fileName} mixes record types: ${Array.from(types).join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Build a manifest of a migration archive in a single streaming pass.
+ * Only the JSON files at the archive root are read, attachments and git
+ * data are measured from their entry headers and never written to disk.
+ * Rejects if the archive is corrupt or contains unsafe paths.
+ */
+async function inspectArchive(
+  archivePath: string,
+  source: string,
+  sha256: string,
+): Promise<ArchiveManifest> {
+  const manifest: ArchiveManifest = {
+    source,
+    inspectedAt: new Date().toISOString(),
+    sha256,
+    schemaVersion: null,
+    recordCounts: {},
+    dataFiles: 0,
+    attachments: { count: 0, bytes: 0 },
+    gitRepositories: { count: 0, bytes: 0 },
+    repositories: [],
+    errors: [],
+    anomalies: [],
+  };
+
+  let hasSchema = false;
+  const gitRepositories = new Set<string>();
+
+  await readArchiveEntries(archivePath, ['/*.json'], {
+    maxEntryBytes: MAX_DATA_FILE_BYTES,
+    onEntry: (entry) => {
+      const isFile = entry.type === 'File';
+      if (isFile && entry.path.startsWith('attachments/')) {
+        manifest.attachments.count++;
+        manifest.attachments.bytes += entry.size;
+      }
+
+      const gitMatch = entry.path.match(GIT_REPOSITORY_PATTERN);
+      if (gitMatch) {
+        gitRepositories.add(`${gitMatch[1]}/${gitMatch[2]}`.toLowerCase());
+        if (isFile) manifest.gitRepositories.bytes += entry.size;
+      }
+    },
+    onMatch: (entry) => {
+      if (entry.path === 'schema.json') {
+        hasSchema = true;
+        try {
+          manifest.schemaVersion =
+            JSON.parse(entry.content.toString('utf-8')).version || null;
+        } catch {
+          manifest.anomalies.push('schema.json is not valid JSON');
+        }
+        return;
+      }
+
+      if (entry.path === 'error.json') {
+        const errorContent = entry.content.toString('utf-8');
+        try {
+          manifest.errors = normalizeMigrationErrors(JSON.parse(errorContent));
+        } catch {
+          manifest.errors = [errorContent];
+        }
+        return;
+      }
+
+      const match = entry.path.match(DATA_FILE_PATTERN);
+      if (match) {
+        inspectDataFile(manifest, entry.path, match[1], entry.content);
+      }
+    },
+  });
+
+  if (!hasSchema) {
+    manifest.anomalies.push('schema.json is missing');
+  }
+
+  manifest.gitRepositories.count = gitRepositories.size;
+  if (gitRepositories.size > 0) {
+    for (const repository of manifest.repositories) {
+      if (!gitRepositories.has(repository.toLowerCase())) {
+        manifest.anomalies.push(`${repository} has no git data`);
+      }
+    }
+  }
+
+  if (manifest.dataFiles === 0 && gitRepositories.size === 0) {
+    manifest.anomalies.push('Archive contains no data files or git data');
+  }
+
+  manifest.repositories.sort();
+  return manifest;
+}
+
+const inspectMigrationArchiveCommand = createBaseCommand({
+  name: 'inspect-migration-archive',
+  description:
+    'Summarize the contents of a migration archive to sanity-check it before importing',
+})
+  .addOption(
+    new Option(
+      '--migration-id <migrationId>',
+      'The ID of the migration whose archive should be downloaded',
+    ).env('MIGRATION_ID'),
+  )
+  .addOption(
+    new Option(
+      '--archive-file <archiveFile>',
+      'Path to a local migration archive (.tar.gz) instead of downloading one',
+    ).env('ARCHIVE_FILE'),
+  )
+  .addOption(
+    new Option('--output <output>', 'Path to write the JSON manifest')
+      .env('ARCHIVE_MANIFEST')
+      .default('./migration-archive-manifest.json'),
+  )
+  .addOption(
+    new Option(
+      '--download-timeout <downloadTimeout>',
+      'Milliseconds without data before an archive download attempt is aborted',
+    )
+      .env('DOWNLOAD_TIMEOUT_MS')
+      .default('60000'),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting...');
+
+      if (!options.migrationId && !options.archiveFile) {
+        logger.error(
+          'Either --migration-id or --archive-file must be provided',
+        );
+        return;
+      }
+
+      const tempDir = path.join(process.cwd(), 'temp');
+      const label = options.archiveFile
+        ? path.basename(options.archiveFile)
+        : `migration-${options.migrationId}`;
+      const cleanupPaths: string[] = [];
+
+      try {
+        let archivePath: string;
+        let sha256: string;
+        if (options.archiveFile) {
+          archivePath = path.resolve(process.cwd(), options.archiveFile);
+          sha256 = await computeFileSha256(archivePath);
+        } else {
+          const downloadUrl = await getMigrationArchiveUrl(
+            octokit,
+            opts.orgName,
+            parseInt(options.migrationId, 10),
+          );
+          if (!downloadUrl) {
+            logger.error(
+              `No archive download URL returned for migration ${options.migrationId}`,
+            );
+            return;
+          }
+
+          ensureDirectoryExists(tempDir);
+          archivePath = path.join(tempDir, `${label}.tar.gz`);
+          cleanupPaths.push(archivePath, `${archivePath}.sha256`);
+          logger.info(
+            `Downloading archive for migration ${options.migrationId}...`,
+          );
+          ({ sha256 } = await downloadFile(downloadUrl, archivePath, {
+            ...getDownloadOptions(opts, options.downloadTimeout),
+            logger,
+          }));
+        }
+        logger.info(`SHA-256: ${sha256}`);
+
+        logger.info(`Reading ${archivePath}...`);
+        let manifest: ArchiveManifest;
+        try {
+          manifest = await inspectArchive(
+            archivePath,
+            options.archiveFile || `migration ${options.migrationId}`,
+            sha256,
+          );
+        } catch (error: any) {
+          logger.error(`Archive is corrupt or unsafe: ${error.message}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const outputFile = path.resolve(process.cwd(), options.output);
+        fs.writeFileSync(outputFile, JSON.stringify(manifest, null, 2) + '\n');
+
+        logger.info('=== Migration Archive Summary ===');
+        logger.info(`Schema version: ${manifest.schemaVersion || 'unknown'}`);
+        logger.info(`Repositories: ${manifest.repositories.length}`);
+        for (const [model, count] of Object.entries(manifest.recordCounts)) {
+          logger.info(`  ${model}: ${count}`);
+        }
+        logger.info(
+          `Attachments: ${manifest.attachments.count} (${manifest.attachments.bytes} bytes)`,
+        );
+        logger.info(
+          `Git repositories: ${manifest.gitRepositories.count} (${manifest.gitRepositories.bytes} bytes)`,
+        );
+        manifest.errors.forEach((error) =>
+          logger.error(`Export error: ${error}`),
+        );
+        manifest.anomalies.forEach((anomaly) =>
+          logger.warn(`Anomaly: ${anomaly}`),
+        );
+        logger.info(`Manifest written to ${outputFile}`);
+
+        if (manifest.errors.length > 0 || manifest.anomalies.length > 0) {
+          process.exitCode = 1;
+        }
+      } catch (error: any) {
+        logger.error(`Failed to inspect migration archive: ${error.message}`);
+        process.exitCode = 1;
+      } finally {
+        await cleanupFiles(cleanupPaths, logger);
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default inspectMigrationArchiveCommand;
@@ -2,57 +2,214 @@ import {
   createBaseCommand,
   executeWithOctokit,
 } from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  getMigrationArchiveUrl,
+  MIGRATION_STATES,
+} from '../utils/migrations.js';
+
+/**
+ * Check whether the archive of an exported migration can still be downloaded,
+ * returns null when availability could not be determined
+ */
+async function isArchiveAvailable(
+  octokit: any,
+  logger: any,
+  orgName: string,
+  migrationId: number,
+): Promise<boolean | null> {
+  try {
+    return (
+      (await getMigrationArchiveUrl(octokit, orgName, migrationId)) !== null
+    );
+  } catch (error: any) {
+    // Deleted or expired archives return 404 or 410
+    if (error.status === 404 || error.status === 410) {
+      return false;
+    }
+    logger.warn(
+      `Could not check archive of migration ${migrationId}: ${error.message}`,
+    );
+    return null;
+  }
+}
 
 const listOrgMigrationsCommand = createBaseCommand({
   name: 'list-org-migrations',
   description: 'List organization migrations',
-}).action(async (options) => {
-  await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
-    logger.info('Starting...');
-
-    // Create a CSV filename with timestamp
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const csvFilename = path.join(
-      process.cwd(),
-      `org-migrations-${opts.orgName}-${timestamp}.csv`,
-    );
+})
+  .addOption(
+    new Option(
+      '--state <state>',
+      `Comma-separated list of states to include (${MIGRATION_STATES.join(', ')})`,
+    ).env('MIGRATION_STATE'),
+  )
+  .addOption(
+    new Option(
+      '--since <since>',
+      'Only include migrations created on or after this date (ISO 8601)',
+    ).env('MIGRATIONS_SINCE'),
+  )
+  .addOption(
+    new Option(
+      '--until <until>',
+      'Only include migrations created before this date (ISO 8601)',
+    ).env('MIGRATIONS_UNTIL'),
+  )
+  .addOption(
+    new Option(
+      '--format <format>',
+      'One row per migration (wide) or one row per migration and repository (long)',
+    )
+      .choices(['wide', 'long'])
+      .env('MIGRATIONS_FORMAT')
+      .default('wide'),
+  )
+  .addOption(
+    new Option(
+      '--csv-output <csvOutput>',
+      'Path to write CSV output file (defaults to a timestamped file)',
+    ).env('CSV_OUTPUT'),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting...');
 
-    // Write CSV header
-    fs.writeFileSync(
-      csvFilename,
-      'Migration ID,State,Created At,Updated At,Repositories\n',
-    );
+      const states: string[] = options.state
+        ? options.state.split(',').map((state: string) => state.trim())
+        : [];
+      const invalidStates = states.filter((s) => !MIGRATION_STATES.includes(s));
+      if (invalidStates.length > 0) {
+        logger.error(`Invalid --state value(s): ${invalidStates.join(', ')}`);
+        return;
+      }
 
-    const migrationsIterator = octokit.paginate.iterator(
-      octokit.rest.migrations.listForOrg,
-      {
-        org: opts.orgName,
-        per_page: 100,
-      },
-    );
+      const since = options.since ? new Date(options.since) : null;
+      const until = options.until ? new Date(options.until) : null;
+      if (
+        (since && isNaN(since.getTime())) ||
+        (until && isNaN(until.getTime()))
+      ) {
+        logger.error('--since and --until must be valid dates');
+        return;
+      }
 
-    let count = 0;
-    for await (const { data: migrations } of migrationsIterator) {
-      for (const migration of migrations) {
-        // Extract repository names from the repositories array
-        const repoNames = migration.repositories
-          ? migration.repositories.map((repo) => repo.name).join(';')
-          : '';
-
-        // Append each migration as a CSV row
-        fs.appendFileSync(
-          csvFilename,
-          `${migration.id},${migration.state},${migration.created_at},${migration.updated_at},"${repoNames}"\n`,
-        );
-        count++;
+      // Create a CSV filename with timestamp unless a path was given
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const csvFilename = options.csvOutput
+        ? path.resolve(process.cwd(), options.csvOutput)
+        : path.join(
+            process.cwd(),
+            `org-migrations-${opts.orgName}-${timestamp}.csv`,
+          );
+
+      // Write CSV header
+      const csvHeaders = [
+        'Migration ID',
+        'State',
+        'Owner',
+        'Created At',
+        'Updated At',
+        'Lock Repositories',
+        'Exclude Git Data',
+        'Exclude Metadata',
+        'Exclude Releases',
+        'Exclude Attachments',
+        'Exclude Owner Projects',
+        'Org Metadata Only',
+        'Archive Available',
+        options.format === 'long' ? 'Repository' : 'Repositories',
+      ];
+      fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
+
+      const migrationsIterator = octokit.paginate.iterator(
+        octokit.rest.migrations.listForOrg,
+        {
+          org: opts.orgName,
+          per_page: 100,
+        },
+      );
+
+      let count = 0;
+      let rowCount = 0;
+      let uncheckedArchives = 0;
+      for await (const { data: migrations } of migrationsIterator) {
+        for (const migration of migrations) {
+          const createdAt = new Date(migration.created_at);
+          if (states.length > 0 && !states.includes(migration.state)) continue;
+          if (since && createdAt < since) continue;
+          if (until && createdAt >= until) continue;
+
+          const archiveAvailable =
+            migration.state === 'exported'
+              ? await isArchiveAvailable(
+                  octokit,
+                  logger,
+                  opts.orgName,
+                  migration.id,
+                )
+              : false;
+          if (archiveAvailable === null) {
+            uncheckedArchives++;
+          }
+
+          const migrationColumns = [
+            migration.id,
+            migration.state,
+            migration.owner?.login || '',
+            migration.created_at,
+            migration.updated_at,
+            migration.lock_repositories,
+            migration.exclude_git_data ?? false,
+            migration.exclude_metadata ?? false,
+            migration.exclude_releases ?? false,
+            migration.exclude_attachments ?? false,
+            migration.exclude_owner_projects ?? false,
+            migration.org_metadata_only ?? false,
+            archiveAvailable ?? 'unknown',
+          ];
+
+          // Extract repository names from the repositories array
+          const repoNames = migration.repositories
+            ? migration.repositories.map((repo) => repo.name)
+            : [];
+
+          if (options.format === 'long') {
+            // Migrations without repositories (org metadata only) still get a row
+            const rowRepoNames = repoNames.length > 0 ? repoNames : [''];
+            for (const repoName of rowRepoNames) {
+              fs.appendFileSync(
+                csvFilename,
+                [...migrationColumns, repoName].join(',') + '\n',
+              );
+              rowCount++;
+            }
+          } else {
+            // Append each migration as a CSV row
+            fs.appendFileSync(
+              csvFilename,
+              [...migrationColumns, `"${repoNames.join(';')}"`].join(',') +
+                '\n',
+            );
+            rowCount++;
+          }
+          count++;
+        }
       }
-    }
 
-    logger.info(`Exported ${count} migrations to ${csvFilename}`);
-    logger.info('Finished');
+      logger.info(
+        `Exported ${count} migrations (${rowCount} rows) to ${csvFilename}`,
+      );
+      if (uncheckedArchives > 0) {
+        logger.warn(
+          `Archive availability of ${uncheckedArchives} migration(s) could not be checked and is reported as unknown`,
+        );
+        process.exitCode = 1;
+      }
+      logger.info('Finished');
+    });
   });
-});
 
 export default listOrgMigrationsCommand;
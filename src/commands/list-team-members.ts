@@ -4,14 +4,24 @@ import {
 } from '@scottluskcis/octokit-harness';
 import * as fs from 'fs';
 import * as path from 'path';
-import { getTeamMembers, parseTeamNames } from '../utils/teams.js';
+import {
+  getChildTeams,
+  getTeamMembers,
+  listOrganizationTeams,
+  parseTeamNames,
+  resolveTeams,
+  TeamDetails,
+  TeamMember,
+  TeamRole,
+} from '../utils/teams.js';
 
 import { Option } from 'commander';
 
 interface TeamMemberData {
-  teamName: string;
-  teamSlug: string;
+  team: TeamDetails;
   memberLogin: string;
+  role: TeamRole;
+  inheritedVia: string;
 }
 
 const listTeamMembersCommand = createBaseCommand({
@@ -27,11 +37,23 @@ const listTeamMembersCommand = createBaseCommand({
   .addOption(
     new Option(
       '--teams <teams>',
-      'Comma-separated list of team names/slugs to retrieve members for',
+      'Comma-separated list of team names, slugs or wildcard patterns (e.g. platform-*) to retrieve members for',
     )
       .env('TEAMS')
       .makeOptionMandatory(),
   )
+  .addOption(
+    new Option(
+      '--expand-child-teams [expandChildTeams]',
+      'List direct members only and add members of child teams recursively with the team they are inherited via',
+    )
+      .env('EXPAND_CHILD_TEAMS')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
   .action(async (options) => {
     await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
       logger.info('Starting team members collection...');
@@ -44,41 +66,105 @@ const listTeamMembersCommand = createBaseCommand({
         return;
       }
 
-      logger.info(`Processing ${teams.length} team(s): ${teams.join(', ')}`);
+      // Resolve names, slugs and patterns against the organization's teams
+      const { teams: resolvedTeams, unresolved } = resolveTeams(
+        teams,
+        await listOrganizationTeams(octokit, opts.orgName),
+      );
+
+      for (const { input, reason, suggestions } of unresolved) {
+        const hint =
+          suggestions.length > 0
+            ? ` Did you mean: ${suggestions.join(', ')}?`
+            : '';
+        logger.warn(
+          reason === 'ambiguous'
+            ? `Team name "${input}" matches more than one team, use a slug instead.${hint}`
+            : `No team found matching "${input}".${hint}`,
+        );
+      }
+
+      if (resolvedTeams.length === 0) {
+        logger.error('None of the provided teams were found');
+        return;
+      }
+
+      logger.info(
+        `Processing ${resolvedTeams.length} team(s): ${resolvedTeams.map((t) => t.slug).join(', ')}`,
+      );
 
       const teamMemberData: TeamMemberData[] = [];
-      const teamMap = new Map<string, string[]>();
+      const teamMap = new Map<string, TeamMember[]>();
+
+      // Add direct members of each child team, recursively, attributed to the requested team
+      const addChildTeamMembers = async (
+        team: TeamDetails,
+        parentSlug: string,
+        viaPath: string[],
+      ) => {
+        const childTeams = await getChildTeams(
+          octokit,
+          opts.orgName,
+          parentSlug,
+        );
+
+        for (const childTeam of childTeams) {
+          const childPath = [...viaPath, childTeam.slug];
+          const childMembers = await getTeamMembers(
+            octokit,
+            opts.orgName,
+            childTeam.slug,
+            childTeam.name,
+            teamMap,
+            logger,
+            'immediate',
+          );
 
-      for (const teamInput of teams) {
-        try {
-          // Use team input as both name and slug (teams can be referenced by either)
-          const teamSlug = teamInput;
-          const teamName = teamInput;
+          for (const member of childMembers) {
+            teamMemberData.push({
+              team,
+              memberLogin: member.login,
+              role: member.role,
+              inheritedVia: childPath.join(' > '),
+            });
+          }
+
+          await addChildTeamMembers(team, childTeam.slug, childPath);
+        }
+      };
 
-          logger.info(`Processing team: ${teamName}`);
+      for (const team of resolvedTeams) {
+        try {
+          logger.info(`Processing team: ${team.name} (${team.slug})`);
 
           const members = await getTeamMembers(
             octokit,
             opts.orgName,
-            teamSlug,
-            teamName,
+            team.slug,
+            team.name,
             teamMap,
             logger,
+            options.expandChildTeams ? 'immediate' : 'all',
           );
 
-          logger.info(`Found ${members.length} members in team: ${teamName}`);
+          logger.info(`Found ${members.length} members in team: ${team.name}`);
 
           // Add each member to the data array
-          for (const memberLogin of members) {
+          for (const member of members) {
             teamMemberData.push({
-              teamName,
-              teamSlug,
-              memberLogin,
+              team,
+              memberLogin: member.login,
+              role: member.role,
+              inheritedVia: '',
             });
           }
+
+          if (options.expandChildTeams) {
+            await addChildTeamMembers(team, team.slug, []);
+          }
         } catch (error: any) {
           logger.warn(
-            `Error fetching members for team ${teamInput}: ${error.message}`,
+            `Error fetching members for team ${team.slug}: ${error.message}`,
           );
           // Continue processing other teams
         }
@@ -99,6 +185,11 @@ const listTeamMembersCommand = createBaseCommand({
           'Team Name',
           'Team Slug',
           'Username',
+          'Role',
+          'Parent Team',
+          'Privacy',
+          'Team Description',
+          'Inherited Via',
         ];
 
         fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
@@ -107,9 +198,14 @@ const listTeamMembersCommand = createBaseCommand({
         for (const data of teamMemberData) {
           const csvRow = [
             opts.orgName,
-            data.teamName,
-            data.teamSlug,
+            `"${data.team.name.replace(/"/g, '""')}"`,
+            data.team.slug,
             data.memberLogin,
+            data.role,
+            `"${(data.team.parentSlug || '').replace(/"/g, '""')}"`,
+            data.team.privacy,
+            `"${(data.team.description || '').replace(/"/g, '""')}"`, // Quote description in case it contains commas
+            data.inheritedVia,
           ];
           fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
         }
@@ -5,36 +5,86 @@ import {
 import { Option } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  getBaseUrl,
+  getUrlWithoutQuery,
+  listOrganizationWebhooks,
+  WebhookData,
+  WebhookListStats,
+} from '../utils/webhooks.js';
+
+type WebhookGroupBy = 'none' | 'base-url' | 'url-without-query';
 
-interface WebhookData {
-  type: 'Organization' | 'Repository';
-  organizationName: string;
-  repositoryName?: string;
-  id: number;
-  name: string;
-  active: boolean;
-  hasSecret: boolean;
-  events: string[];
-  url: string;
-  contentType?: string;
-  insecureSSL?: string;
-  createdAt: string;
-  updatedAt: string;
-  lastResponseCode?: number | null;
-  lastResponseStatus?: string;
-  lastResponseMessage?: string | null;
+interface WebhookGroup {
+  key: string;
+  hookCount: number;
+  activeCount: number;
+  repositories: Set<string>;
+  events: Set<string>;
+  anyWithoutSecret: boolean;
+}
+
+/**
+ * Group webhooks by base URL or URL without query
+ */
+function groupWebhooks(
+  webhooks: WebhookData[],
+  groupBy: Exclude<WebhookGroupBy, 'none'>,
+): WebhookGroup[] {
+  const groups = new Map<string, WebhookGroup>();
+
+  for (const webhook of webhooks) {
+    const key =
+      (groupBy === 'base-url'
+        ? getBaseUrl(webhook.url)
+        : getUrlWithoutQuery(webhook.url)) || webhook.url;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        hookCount: 0,
+        activeCount: 0,
+        repositories: new Set<string>(),
+        events: new Set<string>(),
+        anyWithoutSecret: false,
+      };
+      groups.set(key, group);
+    }
+
+    group.hookCount++;
+    if (webhook.active) group.activeCount++;
+    group.repositories.add(
+      webhook.type === 'Organization'
+        ? '(organization)'
+        : webhook.repositoryName!,
+    );
+    webhook.events.forEach((event) => group.events.add(event));
+    if (!webhook.hasSecret) group.anyWithoutSecret = true;
+  }
+
+  return Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key));
 }
 
 const listWebhooksCommand = createBaseCommand({
   name: 'list-webhooks',
   description:
-    'List repository webhooks for all repositories in a GitHub organization',
+    'List organization and repository webhooks for a GitHub organization',
 })
   .addOption(
     new Option('--csv-output <csvOutput>', 'Path to write CSV output file')
       .env('CSV_OUTPUT')
       .default('./repo-webhooks.csv'),
   )
+  .addOption(
+    new Option(
+      '--scope <scope>',
+      'Which webhooks to include: organization hooks, repository hooks, or both',
+    )
+      .choices(['org', 'repo', 'all'])
+      .env('WEBHOOK_SCOPE')
+      .default('all'),
+  )
   .addOption(
     new Option(
       '--only-active-repos [onlyActiveRepos]',
@@ -62,132 +112,72 @@ const listWebhooksCommand = createBaseCommand({
   .addOption(
     new Option(
       '--only-unique-base-urls [onlyUniqueBaseUrls]',
-      'Only include unique base URLs in the webhook list',
+      'Write one row per unique base URL (same as --group-by base-url). This flag used to be ignored, so it now defaults to false to keep one row per webhook',
     )
       .env('ONLY_UNIQUE_BASE_URLS')
-      .default(true)
+      .default(false)
       .argParser((value) => {
         if (typeof value === 'boolean') return value;
         return value === 'true';
       }),
   )
+  .addOption(
+    new Option(
+      '--group-by <groupBy>',
+      'Write one row per distinct base URL or per distinct URL without query instead of one row per webhook',
+    )
+      .choices(['none', 'base-url', 'url-without-query'])
+      .env('WEBHOOK_GROUP_BY')
+      .default('none'),
+  )
   .action(async (options) => {
     await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
-      logger.info('Starting repository webhook listing...');
+      logger.info('Starting webhook listing...');
+
+      const groupBy: WebhookGroupBy =
+        options.groupBy === 'none' && options.onlyUniqueBaseUrls === true
+          ? 'base-url'
+          : options.groupBy;
+      if (options.onlyUniqueBaseUrls === true && options.groupBy === 'none') {
+        logger.warn(
+          '--only-unique-base-urls now writes one row per base URL instead of one row per webhook, set it to false to keep the per-webhook CSV',
+        );
+      }
 
       const webhooks: WebhookData[] = [];
       const uniqueBaseUrls = new Set<string>();
       const uniqueUrlsWithoutQuery = new Set<string>();
+      const stats: WebhookListStats = { processedRepos: 0, failures: [] };
 
-      // Get repository webhooks
-      logger.info('Fetching repository webhooks...');
-
-      // Get all repositories in the organization
-      const repoIterator = octokit.paginate.iterator(
-        octokit.rest.repos.listForOrg,
+      for await (const webhook of listOrganizationWebhooks(
+        octokit,
+        opts.orgName,
         {
-          org: opts.orgName,
-          per_page: 100,
-          type: 'all',
+          scope: options.scope,
+          onlyActiveRepos: options.onlyActiveRepos,
+          onlyActiveWebhooks: options.onlyActiveWebhooks,
         },
-      );
-
-      let totalRepos = 0;
-      let processedRepos = 0;
-
-      for await (const { data: repos } of repoIterator) {
-        totalRepos += repos.length;
-
-        for (const repo of repos) {
-          // Skip archived repositories if only active ones are requested
-          if (options.onlyActiveRepos === true && repo.archived === true) {
-            logger.info(`Skipping archived repository: ${repo.name}`);
-            continue;
-          }
+        logger,
+        stats,
+      )) {
+        // Collect unique URLs for separate outputs
+        if (webhook.url !== 'N/A') {
+          const baseUrl = getBaseUrl(webhook.url);
+          const urlWithoutQuery = getUrlWithoutQuery(webhook.url);
 
-          processedRepos++;
-          logger.info(
-            `Processing repository ${processedRepos}/${totalRepos}: ${repo.name}`,
-          );
-
-          try {
-            const repoWebhooksIterator = octokit.paginate.iterator(
-              octokit.rest.repos.listWebhooks,
-              {
-                owner: opts.orgName,
-                repo: repo.name,
-                per_page: 100,
-              },
-            );
-
-            for await (const { data: repoWebhooks } of repoWebhooksIterator) {
-              for (const webhook of repoWebhooks) {
-                if (
-                  options.onlyActiveWebhooks === true &&
-                  webhook.last_response?.status !== 'active'
-                ) {
-                  logger.info(
-                    `Skipping inactive webhook: ${webhook.name} (${webhook.id}) in ${repo.name} with status ${webhook.last_response?.status}`,
-                  );
-                  continue;
-                }
-
-                // parse URL parts and keep a unique base URL if requested
-                if (
-                  options.onlyUniqueBaseUrls === true &&
-                  webhook.config?.url
-                ) {
-                  const url = new URL(webhook.config.url);
-                  const baseUrl = `${url.protocol}//${url.host}`;
-                }
-
-                // Collect unique URLs for separate outputs
-                if (webhook.config?.url && webhook.config.url !== 'N/A') {
-                  try {
-                    const url = new URL(webhook.config.url);
-                    const baseUrl = `${url.protocol}//${url.host}`;
-                    const urlWithoutQuery = `${url.protocol}//${url.host}${url.pathname}`;
-
-                    uniqueBaseUrls.add(baseUrl);
-                    uniqueUrlsWithoutQuery.add(urlWithoutQuery);
-                  } catch (error) {
-                    logger.warn(`Invalid URL format: ${webhook.config.url}`);
-                  }
-                }
-
-                webhooks.push({
-                  type: 'Repository',
-                  organizationName: opts.orgName,
-                  repositoryName: repo.name,
-                  id: webhook.id,
-                  name: webhook.name,
-                  active: webhook.active,
-                  hasSecret: Boolean(webhook.config?.secret),
-                  events: webhook.events,
-                  url: webhook.config?.url || 'N/A',
-                  contentType: webhook.config?.content_type,
-                  insecureSSL: webhook.config?.insecure_ssl?.toString(),
-                  createdAt: webhook.created_at,
-                  updatedAt: webhook.updated_at,
-                  lastResponseCode: webhook.last_response?.code,
-                  lastResponseStatus: webhook.last_response?.status || 'N/A',
-                  lastResponseMessage: webhook.last_response?.message,
-                });
-
-                logger.info(
-                  `Found repo webhook: ${repo.name}/${webhook.name} (${webhook.id}) - ${webhook.config?.url}`,
-                );
-              }
-            }
-          } catch (error: any) {
-            logger.warn(
-              `Error fetching webhooks for repository ${repo.name}: ${error.message}`,
-            );
-            // Continue processing other repositories
+          if (baseUrl && urlWithoutQuery) {
+            uniqueBaseUrls.add(baseUrl);
+            uniqueUrlsWithoutQuery.add(urlWithoutQuery);
+          } else {
+            logger.warn(`Invalid URL format: ${webhook.url}`);
           }
         }
+
+        webhooks.push(webhook);
       }
 
+      const processedRepos = stats.processedRepos;
+
       // Write results to CSV
       if (webhooks.length > 0) {
         const csvFilename = options.csvOutput
@@ -197,90 +187,133 @@ const listWebhooksCommand = createBaseCommand({
               `webhooks-${opts.orgName}-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`,
             );
 
-        // Write CSV header
-        const csvHeaders = [
-          'Type',
-          'Organization',
-          'Repository',
-          'Webhook ID',
-          'Name',
-          'Active',
-          'Has Secret',
-          'Events',
-          'URL',
-          'Content Type',
-          'Insecure SSL',
-          'Created At',
-          'Updated At',
-          'Last Response Code',
-          'Last Response Status',
-          'Last Response Message',
-        ];
-
-        fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
-
-        // Write webhook data
-        for (const webhook of webhooks) {
-          const csvRow = [
-            webhook.type,
-            webhook.organizationName,
-            webhook.repositoryName || '',
-            webhook.id,
-            webhook.name,
-            webhook.active,
-            webhook.hasSecret,
-            `"${webhook.events.join(';')}"`, // Quote and join events with semicolons
-            `"${webhook.url}"`, // Quote URL in case it contains commas
-            webhook.contentType || '',
-            webhook.insecureSSL || '',
-            webhook.createdAt,
-            webhook.updatedAt,
-            webhook.lastResponseCode || '',
-            webhook.lastResponseStatus,
-            `"${webhook.lastResponseMessage || ''}"`, // Quote message in case it contains commas
+        if (groupBy !== 'none') {
+          const groups = groupWebhooks(webhooks, groupBy);
+
+          const csvHeaders = [
+            groupBy === 'base-url' ? 'Base URL' : 'URL Without Query',
+            'Hook Count',
+            'Active Hooks',
+            'Repositories',
+            'Events',
+            'Any Without Secret',
           ];
 
-          fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
-        }
+          fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
 
-        logger.info(`Exported ${webhooks.length} webhooks to ${csvFilename}`);
+          for (const group of groups) {
+            const csvRow = [
+              `"${group.key}"`,
+              group.hookCount,
+              group.activeCount,
+              `"${Array.from(group.repositories).sort().join(';')}"`,
+              `"${Array.from(group.events).sort().join(';')}"`,
+              group.anyWithoutSecret,
+            ];
 
-        // Generate unique base URLs output
-        if (uniqueBaseUrls.size > 0) {
-          const baseUrlsFilename = csvFilename.replace(
-            '.csv',
-            '-unique-base-urls.txt',
-          );
-          const sortedBaseUrls = Array.from(uniqueBaseUrls).sort();
-          fs.writeFileSync(baseUrlsFilename, sortedBaseUrls.join('\n') + '\n');
-          logger.info(
-            `Exported ${uniqueBaseUrls.size} unique base URLs to ${baseUrlsFilename}`,
-          );
-        }
+            fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+          }
 
-        // Generate unique URLs without query strings output
-        if (uniqueUrlsWithoutQuery.size > 0) {
-          const urlsWithoutQueryFilename = csvFilename.replace(
-            '.csv',
-            '-unique-urls-no-query.txt',
-          );
-          const sortedUrlsWithoutQuery = Array.from(
-            uniqueUrlsWithoutQuery,
-          ).sort();
-          fs.writeFileSync(
-            urlsWithoutQueryFilename,
-            sortedUrlsWithoutQuery.join('\n') + '\n',
-          );
           logger.info(
-            `Exported ${uniqueUrlsWithoutQuery.size} unique URLs (without query strings) to ${urlsWithoutQueryFilename}`,
+            `Exported ${groups.length} grouped URLs (${webhooks.length} webhooks) to ${csvFilename}`,
           );
+        } else {
+          // Write CSV header
+          const csvHeaders = [
+            'Type',
+            'Organization',
+            'Repository',
+            'Webhook ID',
+            'Name',
+            'Active',
+            'Has Secret',
+            'Events',
+            'URL',
+            'Content Type',
+            'Insecure SSL',
+            'Created At',
+            'Updated At',
+            'Last Response Code',
+            'Last Response Status',
+            'Last Response Message',
+          ];
+
+          fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
+
+          // Write webhook data
+          for (const webhook of webhooks) {
+            const csvRow = [
+              webhook.type,
+              webhook.organizationName,
+              webhook.repositoryName || '',
+              webhook.id,
+              webhook.name,
+              webhook.active,
+              webhook.hasSecret,
+              `"${webhook.events.join(';')}"`, // Quote and join events with semicolons
+              `"${webhook.url}"`, // Quote URL in case it contains commas
+              webhook.contentType || '',
+              webhook.insecureSSL || '',
+              webhook.createdAt,
+              webhook.updatedAt,
+              webhook.lastResponseCode || '',
+              webhook.lastResponseStatus,
+              `"${webhook.lastResponseMessage || ''}"`, // Quote message in case it contains commas
+            ];
+
+            fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+          }
+
+          logger.info(`Exported ${webhooks.length} webhooks to ${csvFilename}`);
+
+          // Generate unique base URLs output
+          if (uniqueBaseUrls.size > 0) {
+            const baseUrlsFilename = csvFilename.replace(
+              '.csv',
+              '-unique-base-urls.txt',
+            );
+            const sortedBaseUrls = Array.from(uniqueBaseUrls).sort();
+            fs.writeFileSync(
+              baseUrlsFilename,
+              sortedBaseUrls.join('\n') + '\n',
+            );
+            logger.info(
+              `Exported ${uniqueBaseUrls.size} unique base URLs to ${baseUrlsFilename}`,
+            );
+          }
+
+          // Generate unique URLs without query strings output
+          if (uniqueUrlsWithoutQuery.size > 0) {
+            const urlsWithoutQueryFilename = csvFilename.replace(
+              '.csv',
+              '-unique-urls-no-query.txt',
+            );
+            const sortedUrlsWithoutQuery = Array.from(
+              uniqueUrlsWithoutQuery,
+            ).sort();
+            fs.writeFileSync(
+              urlsWithoutQueryFilename,
+              sortedUrlsWithoutQuery.join('\n') + '\n',
+            );
+            logger.info(
+              `Exported ${uniqueUrlsWithoutQuery.size} unique URLs (without query strings) to ${urlsWithoutQueryFilename}`,
+            );
+          }
         }
 
         // Summary statistics
         const activeWebhooks = webhooks.filter((w) => w.active);
 
-        logger.info('=== Repository Webhook Summary ===');
-        logger.info(`Total repository webhooks found: ${webhooks.length}`);
+        const orgWebhookCount = webhooks.filter(
+          (w) => w.type === 'Organization',
+        ).length;
+
+        logger.info('=== Webhook Summary ===');
+        logger.info(`Total webhooks found: ${webhooks.length}`);
+        logger.info(`Organization webhooks: ${orgWebhookCount}`);
+        logger.info(
+          `Repository webhooks: ${webhooks.length - orgWebhookCount}`,
+        );
         logger.info(`Active webhooks: ${activeWebhooks.length}`);
         logger.info(
           `Inactive webhooks: ${webhooks.length - activeWebhooks.length}`,
@@ -291,10 +324,23 @@ const listWebhooksCommand = createBaseCommand({
           `Unique URLs (without query) found: ${uniqueUrlsWithoutQuery.size}`,
         );
       } else {
-        logger.info('No repository webhooks found in the organization');
+        logger.info('No webhooks found in the organization');
+      }
+
+      // Webhooks that could not be listed are missing from the CSV
+      if (stats.failures.length > 0) {
+        logger.error(
+          `Webhooks could not be listed for ${stats.failures.length} target(s), the output is incomplete:`,
+        );
+        for (const failure of stats.failures) {
+          logger.error(
+            `  ${failure.repositoryName || `organization ${opts.orgName}`}: ${failure.message}`,
+          );
+        }
+        process.exitCode = 1;
       }
 
-      logger.info('Finished repository webhook listing');
+      logger.info('Finished webhook listing');
     });
   });
 
@@ -4,9 +4,19 @@ import {
 } from '@scottluskcis/octokit-harness';
 
 import { Option } from 'commander';
-import * as path from 'path';
 import * as fs from 'fs/promises';
-import { downloadExtractAndFindFile } from '../utils/file.js';
+import * as path from 'path';
+import { parseIntegerOption, sleep } from '../utils.js';
+import {
+  DownloadOptions,
+  downloadExtractAndFindFile,
+  getDownloadOptions,
+} from '../utils/file.js';
+import {
+  ExportIdPair,
+  normalizeMigrationErrors,
+  readExportIdsFromFile,
+} from '../utils/migrations.js';
 
 async function getMigrationStatus(
   octokit: any,
@@ -14,6 +24,7 @@ async function getMigrationStatus(
   orgName: string,
   migrationId: number,
   exportType: string,
+  logState = true,
 ): Promise<{ success: boolean; state?: string }> {
   try {
     const response = await octokit.rest.migrations.getStatusForOrg({
@@ -23,9 +34,11 @@ async function getMigrationStatus(
 
     if (response.status === 200) {
       const exportData = response.data;
-      logger.info(
-        `${exportType} Export for id: ${migrationId} - State: ${exportData.state}`,
-      );
+      if (logState) {
+        logger.info(
+          `${exportType} Export for id: ${migrationId} - State: ${exportData.state}`,
+        );
+      }
       return { success: true, state: exportData.state };
     } else {
       logger.error(
@@ -48,7 +61,10 @@ async function downloadMigrationArchive(
   orgName: string,
   migrationId: number,
   exportType: string,
-): Promise<boolean> {
+  downloadOptions: DownloadOptions,
+): Promise<{ downloaded: boolean; errors: string[] }> {
+  const errors: string[] = [];
+
   try {
     logger.info(
       `Attempting to download ${exportType.toLowerCase()} migration archive for id: ${migrationId}...`,
@@ -78,73 +94,61 @@ async function downloadMigrationArchive(
         logger.info(
           `${exportType} migration archive is available for id: ${migrationId}, but no direct download URL found. Response: ${JSON.stringify(response.headers)}`,
         );
-        return true;
+        return { downloaded: true, errors };
       }
     } else {
       logger.error(
         `Failed to get download URL for ${exportType.toLowerCase()} migration archive ID ${migrationId}. Status: ${response.status}`,
       );
-      return false;
+      return { downloaded: false, errors };
     }
 
     // If we have a download URL, download and extract the archive to look for errors
     if (downloadUrl) {
       const tempDir = path.join(process.cwd(), 'temp');
       const archiveName = `migration-${migrationId}.tar.gz`;
-      const extractDirName = `migration-${migrationId}-extracted`;
 
       try {
-        const { content: errorContent, cleanup } =
-          await downloadExtractAndFindFile(
-            downloadUrl,
-            tempDir,
-            archiveName,
-            extractDirName,
-            'error.json',
-            logger,
+        const {
+          content: errorContent,
+          integrityError,
+          cleanup,
+        } = await downloadExtractAndFindFile(
+          downloadUrl,
+          tempDir,
+          archiveName,
+          'error.json',
+          logger,
+          downloadOptions,
+        );
+
+        if (integrityError) {
+          await cleanup();
+          errors.push(`Archive corrupt: ${integrityError}`);
+          logger.error(
+            `${exportType} migration archive ${migrationId} is corrupt, it could not be checked for errors: ${integrityError}`,
           );
+          return { downloaded: false, errors };
+        }
 
         if (errorContent) {
           try {
-            const errorData = JSON.parse(errorContent);
+            errors.push(...normalizeMigrationErrors(JSON.parse(errorContent)));
 
-            // Handle different error structures
-            if (errorData.error) {
-              // Single error message
+            if (errors.length === 1) {
               logger.error(
-                `Migration error found in ${exportType.toLowerCase()} export ${migrationId}: ${errorData.error}`,
+                `Migration error found in ${exportType.toLowerCase()} export ${migrationId}: ${errors[0]}`,
               );
-            } else if (errorData.errors && Array.isArray(errorData.errors)) {
-              // Multiple errors in an array
-              logger.error(
-                `Migration errors found in ${exportType.toLowerCase()} export ${migrationId}:`,
-              );
-              errorData.errors.forEach((error: any, index: number) => {
-                const errorMsg =
-                  typeof error === 'string'
-                    ? error
-                    : error.error || error.message || JSON.stringify(error);
-                logger.error(`  ${index + 1}. ${errorMsg}`);
-              });
-            } else if (Array.isArray(errorData)) {
-              // Error data is directly an array
+            } else {
               logger.error(
                 `Migration errors found in ${exportType.toLowerCase()} export ${migrationId}:`,
               );
-              errorData.forEach((error: any, index: number) => {
-                const errorMsg =
-                  typeof error === 'string'
-                    ? error
-                    : error.error || error.message || JSON.stringify(error);
-                logger.error(`  ${index + 1}. ${errorMsg}`);
+              errors.forEach((error, index) => {
+                logger.error(`  ${index + 1}. ${error}`);
               });
-            } else {
-              // Fallback to stringify the entire object
-              logger.error(
-                `Migration error found in ${exportType.toLowerCase()} export ${migrationId}: ${JSON.stringify(errorData)}`,
-              );
             }
-          } catch (parseError) {
+          } catch {
+            errors.push(errorContent);
             logger.error(
               `Migration error found in ${exportType.toLowerCase()} export ${migrationId}, but could not parse JSON: ${errorContent}`,
             );
@@ -159,44 +163,68 @@ async function downloadMigrationArchive(
         await cleanup();
       } catch (downloadError) {
         logger.error(`Failed to download or extract archive: ${downloadError}`);
-        return false;
+        return { downloaded: false, errors };
       }
     }
 
-    return true;
+    return { downloaded: true, errors };
   } catch (error) {
     logger.error(
       `Error downloading ${exportType.toLowerCase()} migration archive for migration ID ${migrationId}:`,
       error,
     );
-    return false;
+    return { downloaded: false, errors };
   }
 }
 
-interface ExportIdPair {
-  metadataExportId: number;
-  gitExportId: number;
+// Unpaired exports are single exports and git exports whose metadata export failed to start
+type ExportType = 'Git' | 'Metadata' | 'Unpaired';
+
+interface ExportStatusRecord {
+  pairIndex: number;
+  exportType: ExportType;
+  migrationId: number;
+  state: string;
+  errors: string[];
+  // Whether the archive of a failed export was downloaded, null if not attempted
+  archiveDownloaded: boolean | null;
 }
 
-interface ExportIdsFile {
-  exportIds: ExportIdPair[];
+function createExportStatusRecord(
+  pairIndex: number,
+  exportType: ExportType,
+  migrationId: number,
+): ExportStatusRecord {
+  return {
+    pairIndex,
+    exportType,
+    migrationId,
+    state: 'unknown',
+    errors: [],
+    archiveDownloaded: null,
+  };
 }
 
-async function readExportIdsFromFile(
-  filePath: string,
-): Promise<ExportIdPair[]> {
-  try {
-    const fileContent = await fs.readFile(filePath, 'utf-8');
-    const data: ExportIdsFile = JSON.parse(fileContent);
-
-    if (!data.exportIds || !Array.isArray(data.exportIds)) {
-      throw new Error('JSON file must contain an "exportIds" array');
-    }
-
-    return data.exportIds;
-  } catch (error) {
-    throw new Error(`Failed to read or parse JSON file: ${error}`);
-  }
+/**
+ * Download the archive of a failed export and record what it contained
+ */
+async function recordFailedExport(
+  octokit: any,
+  logger: any,
+  orgName: string,
+  record: ExportStatusRecord,
+  downloadOptions: DownloadOptions,
+): Promise<void> {
+  const { downloaded, errors } = await downloadMigrationArchive(
+    octokit,
+    logger,
+    orgName,
+    record.migrationId,
+    record.exportType,
+    downloadOptions,
+  );
+  record.archiveDownloaded = downloaded;
+  record.errors = errors;
 }
 
 async function processExportIdPair(
@@ -204,9 +232,20 @@ async function processExportIdPair(
   logger: any,
   orgName: string,
   exportIdPair: ExportIdPair,
+  downloadOptions: DownloadOptions,
   index?: number,
-): Promise<void> {
+): Promise<ExportStatusRecord[]> {
   const prefix = index !== undefined ? `[${index + 1}] ` : '';
+  const gitRecord = createExportStatusRecord(
+    index ?? 0,
+    'Git',
+    exportIdPair.gitExportId,
+  );
+  const metadataRecord = createExportStatusRecord(
+    index ?? 0,
+    'Metadata',
+    exportIdPair.metadataExportId,
+  );
 
   logger.info(
     `${prefix}Processing export pair - Git ID: ${exportIdPair.gitExportId}, Metadata ID: ${exportIdPair.metadataExportId}`,
@@ -219,6 +258,7 @@ async function processExportIdPair(
     exportIdPair.gitExportId,
     'Git',
   );
+  gitRecord.state = gitExportResult.state || gitRecord.state;
 
   if (!gitExportResult.success) {
     logger.error(
@@ -228,12 +268,12 @@ async function processExportIdPair(
     logger.warn(
       `${prefix}Git export failed, attempting to download archive...`,
     );
-    await downloadMigrationArchive(
+    await recordFailedExport(
       octokit,
       logger,
       orgName,
-      exportIdPair.gitExportId,
-      'Git',
+      gitRecord,
+      downloadOptions,
     );
   }
 
@@ -244,6 +284,7 @@ async function processExportIdPair(
     exportIdPair.metadataExportId,
     'Metadata',
   );
+  metadataRecord.state = metadataExportResult.state || metadataRecord.state;
 
   if (!metadataExportResult.success) {
     logger.error(`${prefix}Metadata export status check failed.`);
@@ -251,13 +292,231 @@ async function processExportIdPair(
     logger.warn(
       `${prefix}Metadata export failed, attempting to download archive...`,
     );
-    await downloadMigrationArchive(
+    await recordFailedExport(
       octokit,
       logger,
       orgName,
-      exportIdPair.metadataExportId,
-      'Metadata',
+      metadataRecord,
+      downloadOptions,
+    );
+  }
+
+  return [gitRecord, metadataRecord];
+}
+
+async function processUnpairedExport(
+  octokit: any,
+  logger: any,
+  orgName: string,
+  migrationId: number,
+  downloadOptions: DownloadOptions,
+  index: number,
+): Promise<ExportStatusRecord> {
+  const prefix = `[${index + 1}] `;
+  const record = createExportStatusRecord(index, 'Unpaired', migrationId);
+
+  logger.info(`${prefix}Processing unpaired export - ID: ${migrationId}`);
+
+  const result = await getMigrationStatus(
+    octokit,
+    logger,
+    orgName,
+    migrationId,
+    'Unpaired',
+  );
+  record.state = result.state || record.state;
+
+  if (!result.success) {
+    logger.error(`${prefix}Unpaired export status check failed.`);
+  } else if (result.state === 'failed') {
+    logger.warn(
+      `${prefix}Unpaired export failed, attempting to download archive...`,
+    );
+    await recordFailedExport(octokit, logger, orgName, record, downloadOptions);
+  }
+
+  return record;
+}
+
+/**
+ * Write one record per export as JSON or CSV
+ */
+async function writeReport(
+  reportFile: string,
+  format: string,
+  records: ExportStatusRecord[],
+): Promise<void> {
+  if (format === 'json') {
+    await fs.writeFile(
+      reportFile,
+      JSON.stringify(
+        {
+          generatedAt: new Date().toISOString(),
+          exports: records.map((record) => ({
+            pairIndex: record.pairIndex,
+            exportType: record.exportType,
+            migrationId: record.migrationId,
+            state: record.state,
+            errors: record.errors,
+            archiveDownloaded: record.archiveDownloaded,
+          })),
+        },
+        null,
+        2,
+      ) + '\n',
     );
+    return;
+  }
+
+  const csvHeaders = [
+    'Pair Index',
+    'Export Type',
+    'Migration ID',
+    'State',
+    'Archive Downloaded',
+    'Error Count',
+    'Errors',
+  ];
+  const csvRows = records.map((record) =>
+    [
+      record.pairIndex,
+      record.exportType,
+      record.migrationId,
+      record.state,
+      record.archiveDownloaded ?? '',
+      record.errors.length,
+      `"${record.errors.join(' | ').replace(/"/g, '""')}"`,
+    ].join(','),
+  );
+  await fs.writeFile(
+    reportFile,
+    [csvHeaders.join(','), ...csvRows].join('\n') + '\n',
+  );
+}
+
+interface WatchedExport extends ExportStatusRecord {
+  elapsedMs: number;
+  done: boolean;
+}
+
+// States after which an export no longer changes
+const TERMINAL_STATES = ['exported', 'failed'];
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+}
+
+function logWatchTable(logger: any, exports: WatchedExport[]): void {
+  const rows = exports.map((e) => [
+    `${e.pairIndex + 1}`,
+    e.exportType,
+    `${e.migrationId}`,
+    e.state,
+    formatElapsed(e.elapsedMs),
+  ]);
+  const header = ['Pair', 'Type', 'Migration ID', 'State', 'Elapsed'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length)),
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+
+  logger.info(formatRow(header));
+  rows.forEach((row) => logger.info(formatRow(row)));
+}
+
+/**
+ * Poll every export until it is exported or failed, downloading the archive
+ * of failed exports to report their errors
+ * @returns The watched exports with their last known state
+ */
+async function watchExportIdPairs(
+  octokit: any,
+  logger: any,
+  orgName: string,
+  exportIdPairs: ExportIdPair[],
+  migrationIds: number[],
+  intervalMs: number,
+  timeoutMs: number,
+  downloadOptions: DownloadOptions,
+): Promise<WatchedExport[]> {
+  const exports: WatchedExport[] = exportIdPairs.flatMap((pair, pairIndex) => [
+    {
+      ...createExportStatusRecord(pairIndex, 'Git', pair.gitExportId),
+      elapsedMs: 0,
+      done: false,
+    },
+    {
+      ...createExportStatusRecord(pairIndex, 'Metadata', pair.metadataExportId),
+      elapsedMs: 0,
+      done: false,
+    },
+  ]);
+  // Unpaired exports are numbered after the pairs
+  migrationIds.forEach((migrationId, index) =>
+    exports.push({
+      ...createExportStatusRecord(
+        exportIdPairs.length + index,
+        'Unpaired',
+        migrationId,
+      ),
+      elapsedMs: 0,
+      done: false,
+    }),
+  );
+
+  const startTime = Date.now();
+
+  while (true) {
+    for (const watched of exports.filter((e) => !e.done)) {
+      const result = await getMigrationStatus(
+        octokit,
+        logger,
+        orgName,
+        watched.migrationId,
+        watched.exportType,
+        false,
+      );
+      watched.elapsedMs = Date.now() - startTime;
+      if (!result.success || !result.state) continue;
+
+      watched.state = result.state;
+      if (TERMINAL_STATES.includes(result.state)) {
+        watched.done = true;
+        if (result.state === 'failed') {
+          logger.warn(
+            `[${watched.pairIndex + 1}] ${watched.exportType} export failed, attempting to download archive...`,
+          );
+          await recordFailedExport(
+            octokit,
+            logger,
+            orgName,
+            watched,
+            downloadOptions,
+          );
+        }
+      }
+    }
+
+    logger.info(
+      `=== Export Status (${formatElapsed(Date.now() - startTime)}) ===`,
+    );
+    logWatchTable(logger, exports);
+
+    if (exports.every((e) => e.done)) {
+      return exports;
+    }
+    if (Date.now() - startTime + intervalMs > timeoutMs) {
+      logger.error(
+        `Timed out after ${formatElapsed(Date.now() - startTime)} waiting for exports to finish`,
+      );
+      return exports;
+    }
+
+    await sleep(intervalMs);
   }
 }
 
@@ -280,30 +539,89 @@ const getMigrationExportStatusCommand = createBaseCommand({
   .addOption(
     new Option(
       '--json-file <jsonFile>',
-      'Path to JSON file containing multiple export ID pairs',
+      'Path to JSON file containing multiple export ID pairs (and unpaired export IDs)',
     ).env('JSON_FILE'),
   )
+  .addOption(
+    new Option(
+      '--watch [watch]',
+      'Keep polling until every export is exported or failed, exiting non-zero if any fail',
+    )
+      .env('WATCH')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .addOption(
+    new Option(
+      '--watch-interval <watchInterval>',
+      'Seconds between status checks in watch mode',
+    )
+      .env('WATCH_INTERVAL')
+      .default('30'),
+  )
+  .addOption(
+    new Option(
+      '--watch-timeout <watchTimeout>',
+      'Minutes to wait for exports to finish in watch mode',
+    )
+      .env('WATCH_TIMEOUT')
+      .default('240'),
+  )
+  .addOption(
+    new Option(
+      '--report <report>',
+      'Path to write a report with one record per export',
+    ).env('EXPORT_STATUS_REPORT'),
+  )
+  .addOption(
+    new Option('--report-format <reportFormat>', 'Format of the report file')
+      .choices(['json', 'csv'])
+      .env('EXPORT_STATUS_REPORT_FORMAT')
+      .default('json'),
+  )
+  .addOption(
+    new Option(
+      '--download-timeout <downloadTimeout>',
+      'Milliseconds without data before an archive download attempt is aborted',
+    )
+      .env('DOWNLOAD_TIMEOUT_MS')
+      .default('60000'),
+  )
   .action(async (options) => {
     await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
       logger.info('Starting...');
 
+      const downloadOptions = getDownloadOptions(opts, options.downloadTimeout);
+
+      const watchInterval = parseIntegerOption(options.watchInterval);
+      const watchTimeout = parseIntegerOption(options.watchTimeout);
+      if (options.watch && (watchInterval === null || watchTimeout === null)) {
+        logger.error(
+          '--watch-interval and --watch-timeout must be positive integers',
+        );
+        process.exitCode = 1;
+        return;
+      }
+
       try {
+        let exportIdPairs: ExportIdPair[];
+        let migrationIds: number[] = [];
+
         // Check if JSON file is provided
         if (options.jsonFile) {
           logger.info(`Reading export IDs from JSON file: ${options.jsonFile}`);
-          const exportIdPairs = await readExportIdsFromFile(options.jsonFile);
+          ({ exportIds: exportIdPairs, migrationIds } =
+            await readExportIdsFromFile(options.jsonFile));
 
           logger.info(
             `Found ${exportIdPairs.length} export ID pair(s) to process`,
           );
-
-          for (let i = 0; i < exportIdPairs.length; i++) {
-            await processExportIdPair(
-              octokit,
-              logger,
-              opts.orgName,
-              exportIdPairs[i],
-              i,
+          if (migrationIds.length > 0) {
+            logger.info(
+              `Found ${migrationIds.length} unpaired export ID(s) to process`,
             );
           }
         } else {
@@ -315,17 +633,74 @@ const getMigrationExportStatusCommand = createBaseCommand({
             return;
           }
 
-          const exportIdPair: ExportIdPair = {
-            metadataExportId: parseInt(options.metadataExportId, 10),
-            gitExportId: parseInt(options.gitExportId, 10),
-          };
+          exportIdPairs = [
+            {
+              metadataExportId: parseInt(options.metadataExportId, 10),
+              gitExportId: parseInt(options.gitExportId, 10),
+            },
+          ];
+        }
+
+        let records: ExportStatusRecord[] = [];
 
-          await processExportIdPair(
+        if (options.watch) {
+          const exports = await watchExportIdPairs(
             octokit,
             logger,
             opts.orgName,
-            exportIdPair,
+            exportIdPairs,
+            migrationIds,
+            watchInterval! * 1000,
+            watchTimeout! * 60 * 1000,
+            downloadOptions,
           );
+
+          const failed = exports.filter((e) => e.state === 'failed');
+          const unfinished = exports.filter((e) => !e.done);
+
+          logger.info('=== Export Status Summary ===');
+          logger.info(
+            `Exported: ${exports.filter((e) => e.state === 'exported').length}`,
+          );
+          logger.info(`Failed: ${failed.length}`);
+          logger.info(`Not finished: ${unfinished.length}`);
+
+          if (failed.length > 0 || unfinished.length > 0) {
+            process.exitCode = 1;
+          }
+
+          records = exports;
+        } else {
+          for (let i = 0; i < exportIdPairs.length; i++) {
+            records.push(
+              ...(await processExportIdPair(
+                octokit,
+                logger,
+                opts.orgName,
+                exportIdPairs[i],
+                downloadOptions,
+                options.jsonFile ? i : undefined,
+              )),
+            );
+          }
+          for (const [i, migrationId] of migrationIds.entries()) {
+            records.push(
+              await processUnpairedExport(
+                octokit,
+                logger,
+                opts.orgName,
+                migrationId,
+                downloadOptions,
+                exportIdPairs.length + i,
+              ),
+            );
+          }
+        }
+
+        if (options.report) {
+          const reportFile = path.resolve(process.cwd(), options.report);
+          await writeReport(reportFile, options.reportFormat, records);
+          logger.info(`Export status report written to ${reportFile}`);
         }
       } catch (error) {
         logger.error('Error processing export status:', error);
@@ -0,0 +1,278 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseIntegerOption } from '../utils.js';
+import {
+  getTeamMembers,
+  listOrganizationTeams,
+  TeamMember,
+} from '../utils/teams.js';
+
+import { Option } from 'commander';
+
+type FindingCategory =
+  | 'member-without-team'
+  | 'outside-collaborator-with-write'
+  | 'stale-invitation';
+
+interface MembershipFinding {
+  category: FindingCategory;
+  login: string;
+  email: string;
+  role: string;
+  details: string;
+  createdAt: string;
+}
+
+// Permissions that allow pushing to a repository
+const WRITE_PERMISSIONS = ['push', 'maintain', 'admin'] as const;
+
+const orgMembershipReportCommand = createBaseCommand({
+  name: 'org-membership-report',
+  description:
+    'Report org members without a team, outside collaborators with write access and stale invitations',
+})
+  .addOption(
+    new Option('--csv-output <csvOutput>', 'Path to write CSV output file')
+      .env('CSV_OUTPUT')
+      .default('./org-membership-report.csv'),
+  )
+  .addOption(
+    new Option(
+      '--invitation-age-days <invitationAgeDays>',
+      'Report pending invitations older than this many days',
+    )
+      .env('INVITATION_AGE_DAYS')
+      .default('30'),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting org membership report...');
+
+      const invitationAgeDays = parseIntegerOption(
+        options.invitationAgeDays,
+        0,
+      );
+      if (invitationAgeDays === null) {
+        logger.error(
+          `Invalid --invitation-age-days: ${options.invitationAgeDays} (expected an integer of 0 or more)`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const findings: MembershipFinding[] = [];
+
+      // Members and their org role
+      const admins = new Set(
+        (
+          await octokit.paginate(octokit.rest.orgs.listMembers, {
+            org: opts.orgName,
+            role: 'admin',
+            per_page: 100,
+          })
+        ).map((member: { login: string }) => member.login),
+      );
+      const members = await octokit.paginate(octokit.rest.orgs.listMembers, {
+        org: opts.orgName,
+        per_page: 100,
+      });
+      logger.info(`Found ${members.length} org members`);
+
+      // Everyone who belongs to at least one team, each team fetched once
+      const teams = await listOrganizationTeams(octokit, opts.orgName);
+      logger.info(`Found ${teams.length} teams`);
+
+      const teamMap = new Map<string, TeamMember[]>();
+      const teamMembers = new Set<string>();
+      const failedTeams: string[] = [];
+      for (const team of teams) {
+        try {
+          const teamMemberList = await getTeamMembers(
+            octokit,
+            opts.orgName,
+            team.slug,
+            team.name,
+            teamMap,
+            logger,
+          );
+          teamMemberList.forEach((member) => teamMembers.add(member.login));
+        } catch (error: any) {
+          logger.warn(
+            `Error fetching members for team ${team.slug}: ${error.message}`,
+          );
+          failedTeams.push(team.slug);
+        }
+      }
+
+      // A member missing from the teams that were read may still be on a team that could not be
+      if (failedTeams.length > 0) {
+        logger.error(
+          `Members of ${failedTeams.length} team(s) could not be read, members without a team are not reported: ${failedTeams.join(', ')}`,
+        );
+      }
+
+      for (const member of members) {
+        if (failedTeams.length === 0 && !teamMembers.has(member.login)) {
+          findings.push({
+            category: 'member-without-team',
+            login: member.login,
+            email: '',
+            role: admins.has(member.login) ? 'admin' : 'member',
+            details: '',
+            createdAt: '',
+          });
+        }
+      }
+
+      // Outside collaborators and the repositories they can push to
+      const outsideCollaborators = await octokit.paginate(
+        octokit.rest.orgs.listOutsideCollaborators,
+        {
+          org: opts.orgName,
+          per_page: 100,
+        },
+      );
+      logger.info(`Found ${outsideCollaborators.length} outside collaborators`);
+
+      const failedRepos: string[] = [];
+      if (outsideCollaborators.length > 0) {
+        const writeAccess = new Map<string, string[]>();
+
+        const reposIterator = octokit.paginate.iterator(
+          octokit.rest.repos.listForOrg,
+          {
+            org: opts.orgName,
+            type: 'all',
+            per_page: 100,
+          },
+        );
+
+        for await (const { data: repos } of reposIterator) {
+          for (const repo of repos) {
+            try {
+              const collaborators = await octokit.paginate(
+                octokit.rest.repos.listCollaborators,
+                {
+                  owner: opts.orgName,
+                  repo: repo.name,
+                  affiliation: 'outside',
+                  per_page: 100,
+                },
+              );
+
+              for (const collaborator of collaborators) {
+                const permission = WRITE_PERMISSIONS.slice()
+                  .reverse()
+                  .find((level) => collaborator.permissions?.[level]);
+                if (!permission) continue;
+
+                if (!writeAccess.has(collaborator.login)) {
+                  writeAccess.set(collaborator.login, []);
+                }
+                writeAccess
+                  .get(collaborator.login)!
+                  .push(`${repo.name}:${permission}`);
+              }
+            } catch (error: any) {
+              logger.warn(
+                `Error fetching collaborators for ${repo.name}: ${error.message}`,
+              );
+              failedRepos.push(repo.name);
+            }
+          }
+        }
+
+        for (const [login, repos] of writeAccess) {
+          findings.push({
+            category: 'outside-collaborator-with-write',
+            login,
+            email: '',
+            role: 'outside collaborator',
+            details: repos.join(';'),
+            createdAt: '',
+          });
+        }
+      }
+
+      // Pending invitations older than the cutoff
+      const cutoff = Date.now() - invitationAgeDays * 24 * 60 * 60 * 1000;
+
+      const invitations = await octokit.paginate(
+        octokit.rest.orgs.listPendingInvitations,
+        {
+          org: opts.orgName,
+          per_page: 100,
+        },
+      );
+      logger.info(`Found ${invitations.length} pending invitations`);
+
+      for (const invitation of invitations) {
+        if (new Date(invitation.created_at).getTime() >= cutoff) continue;
+
+        findings.push({
+          category: 'stale-invitation',
+          login: invitation.login || '',
+          email: invitation.email || '',
+          role: invitation.role,
+          details: `invited by ${invitation.inviter?.login || 'unknown'}`,
+          createdAt: invitation.created_at,
+        });
+      }
+
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      fs.writeFileSync(
+        csvFilename,
+        'Organization,Category,Login,Email,Role,Details,Created At\n',
+      );
+      for (const finding of findings) {
+        const csvRow = [
+          opts.orgName,
+          finding.category,
+          finding.login,
+          finding.email,
+          finding.role,
+          `"${finding.details}"`,
+          finding.createdAt,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+
+      const countByCategory = (category: FindingCategory) =>
+        findings.filter((f) => f.category === category).length;
+
+      logger.info('=== Org Membership Summary ===');
+      logger.info(`Org members: ${members.length}`);
+      logger.info(
+        failedTeams.length > 0
+          ? 'Members without a team: not determined'
+          : `Members without a team: ${countByCategory('member-without-team')}`,
+      );
+      logger.info(
+        `Outside collaborators with write access: ${countByCategory('outside-collaborator-with-write')} of ${outsideCollaborators.length}`,
+      );
+      logger.info(
+        `Invitations pending more than ${invitationAgeDays} days: ${countByCategory('stale-invitation')} of ${invitations.length}`,
+      );
+      logger.info(`Report written to ${csvFilename}`);
+
+      if (failedTeams.length > 0 || failedRepos.length > 0) {
+        logger.error(
+          `Report is incomplete: ${failedTeams.length} team(s) and ${failedRepos.length} repositories could not be read`,
+        );
+        if (failedRepos.length > 0) {
+          logger.error(
+            `Repositories not checked for outside collaborators: ${failedRepos.join(', ')}`,
+          );
+        }
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default orgMembershipReportCommand;
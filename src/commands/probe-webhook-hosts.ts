@@ -0,0 +1,221 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { mapWithConcurrency, parseIntegerOption } from '../utils.js';
+import { HostProbeResult, probeHost } from '../utils/probe.js';
+import { getBaseUrl, listOrganizationWebhooks } from '../utils/webhooks.js';
+
+/**
+ * Read base URLs from a text file, one per line (such as the
+ * -unique-base-urls.txt file written by list-webhooks)
+ */
+function readBaseUrls(inputFile: string, logger: any): string[] {
+  const baseUrls = new Set<string>();
+  const lines = fs.readFileSync(inputFile, 'utf-8').split('\n');
+
+  for (const line of lines) {
+    const value = line.trim();
+    if (!value || value.startsWith('#')) continue;
+
+    const baseUrl = getBaseUrl(value);
+    if (baseUrl) {
+      baseUrls.add(baseUrl);
+    } else {
+      logger.warn(`Skipping invalid URL: ${value}`);
+    }
+  }
+
+  return Array.from(baseUrls).sort();
+}
+
+const probeWebhookHostsCommand = createBaseCommand({
+  name: 'probe-webhook-hosts',
+  description:
+    'Check whether the unique base URLs used by webhooks still resolve and answer',
+})
+  .addOption(
+    new Option(
+      '--input-file <inputFile>',
+      'Text file of base URLs to probe instead of enumerating webhooks',
+    ).env('PROBE_INPUT_FILE'),
+  )
+  .addOption(
+    new Option('--csv-output <csvOutput>', 'Path to write CSV output file')
+      .env('CSV_OUTPUT')
+      .default('./webhook-host-health.csv'),
+  )
+  .addOption(
+    new Option(
+      '--scope <scope>',
+      'Which webhooks to include: organization hooks, repository hooks, or both',
+    )
+      .choices(['org', 'repo', 'all'])
+      .env('WEBHOOK_SCOPE')
+      .default('all'),
+  )
+  .addOption(
+    new Option('--timeout-ms <timeoutMs>', 'Timeout for each probe step')
+      .env('PROBE_TIMEOUT_MS')
+      .default('5000'),
+  )
+  .addOption(
+    new Option('--concurrency <concurrency>', 'Number of hosts probed at once')
+      .env('PROBE_CONCURRENCY')
+      .default('5'),
+  )
+  .addOption(
+    new Option(
+      '--head [head]',
+      'Also send a HEAD request to the base URL of each host',
+    )
+      .env('PROBE_SEND_HEAD')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .addOption(
+    new Option(
+      '--expiry-warning-days <expiryWarningDays>',
+      'Mark hosts whose certificate expires within this many days as degraded',
+    ).default('30'),
+  )
+  .addOption(
+    new Option(
+      '--ca-file <caFile>',
+      'PEM file of additional trusted CA certificates (e.g. for a local stand-in)',
+    ),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting webhook host probe...');
+
+      const concurrency = parseIntegerOption(options.concurrency);
+      const timeoutMs = parseIntegerOption(options.timeoutMs);
+      const expiryWarningDays = parseIntegerOption(options.expiryWarningDays);
+      if (
+        concurrency === null ||
+        timeoutMs === null ||
+        expiryWarningDays === null
+      ) {
+        logger.error(
+          '--concurrency, --timeout-ms and --expiry-warning-days must be positive integers',
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      let baseUrls: string[];
+
+      if (options.inputFile) {
+        logger.info(`Reading base URLs from ${options.inputFile}`);
+        baseUrls = readBaseUrls(options.inputFile, logger);
+      } else {
+        const uniqueBaseUrls = new Set<string>();
+        for await (const webhook of listOrganizationWebhooks(
+          octokit,
+          opts.orgName,
+          {
+            scope: options.scope,
+            onlyActiveRepos: true,
+            onlyActiveWebhooks: false,
+          },
+          logger,
+        )) {
+          const baseUrl = getBaseUrl(webhook.url);
+          if (baseUrl) uniqueBaseUrls.add(baseUrl);
+        }
+        baseUrls = Array.from(uniqueBaseUrls).sort();
+      }
+
+      if (baseUrls.length === 0) {
+        logger.info('No base URLs to probe');
+        logger.info('Finished');
+        return;
+      }
+
+      const probeOptions = {
+        timeoutMs,
+        sendHead: options.head,
+        expiryWarningDays,
+        ca: options.caFile ? fs.readFileSync(options.caFile) : undefined,
+      };
+
+      logger.info(
+        `Probing ${baseUrls.length} host(s) with concurrency ${concurrency}`,
+      );
+
+      const results: HostProbeResult[] = await mapWithConcurrency(
+        baseUrls,
+        concurrency,
+        async (baseUrl) => {
+          const result = await probeHost(baseUrl, probeOptions);
+          logger.info(`${baseUrl}: ${result.health} (${result.durationMs}ms)`);
+          return result;
+        },
+      );
+
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      const csvHeaders = [
+        'Base URL',
+        'Host',
+        'Port',
+        'Health',
+        'Addresses',
+        'DNS Error',
+        'Connect Error',
+        'TLS Authorized',
+        'TLS Error',
+        'Cert Subject',
+        'Cert Issuer',
+        'Cert Valid To',
+        'Cert Days Remaining',
+        'HEAD Status',
+        'HEAD Error',
+        'Duration (ms)',
+      ];
+
+      fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
+
+      for (const result of results) {
+        const csvRow = [
+          `"${result.baseUrl}"`,
+          result.host,
+          result.port,
+          result.health,
+          `"${result.addresses.join(';')}"`,
+          result.dnsError || '',
+          result.connectError || '',
+          result.tlsAuthorized ?? '',
+          `"${result.tlsError || ''}"`,
+          `"${result.certSubject || ''}"`,
+          `"${result.certIssuer || ''}"`,
+          result.certValidTo || '',
+          result.certDaysRemaining ?? '',
+          result.headStatus ?? '',
+          `"${result.headError || ''}"`,
+          result.durationMs,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+
+      const countByHealth = (health: string) =>
+        results.filter((r) => r.health === health).length;
+
+      logger.info('=== Webhook Host Health Summary ===');
+      logger.info(`Hosts probed: ${results.length}`);
+      logger.info(`Healthy: ${countByHealth('healthy')}`);
+      logger.info(`Degraded: ${countByHealth('degraded')}`);
+      logger.info(`Unreachable: ${countByHealth('unreachable')}`);
+      logger.info(`Host health table written to ${csvFilename}`);
+
+      logger.info('Finished');
+    });
+  });
+
+export default probeWebhookHostsCommand;
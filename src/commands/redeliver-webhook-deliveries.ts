@@ -0,0 +1,384 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseIntegerOption, sleep } from '../utils.js';
+import {
+  describeWebhook,
+  getWebhookDeliveries,
+  isSuccessfulDelivery,
+  listOrganizationWebhooks,
+  redeliverWebhookDelivery,
+  WebhookData,
+  WebhookDelivery,
+} from '../utils/webhooks.js';
+
+interface RedeliveryLogEntry {
+  timestamp: string;
+  webhook: WebhookData;
+  delivery: WebhookDelivery;
+  result: 'redelivered' | 'dry-run' | 'failed';
+  message: string;
+}
+
+/**
+ * Select failed deliveries inside the window that have not since succeeded
+ */
+function selectFailedDeliveries(
+  deliveries: WebhookDelivery[],
+  until: Date,
+  events: string[],
+): WebhookDelivery[] {
+  // A GUID that succeeded at any point (including a previous redelivery) is done
+  const succeededGuids = new Set(
+    deliveries.filter((d) => isSuccessfulDelivery(d)).map((d) => d.guid),
+  );
+
+  const selected = new Map<string, WebhookDelivery>();
+  for (const delivery of deliveries) {
+    if (isSuccessfulDelivery(delivery)) continue;
+    if (succeededGuids.has(delivery.guid)) continue;
+    if (new Date(delivery.deliveredAt) > until) continue;
+    if (events.length > 0 && !events.includes(delivery.event)) continue;
+
+    // Only redeliver each GUID once, using its most recent attempt
+    if (!selected.has(delivery.guid)) {
+      selected.set(delivery.guid, delivery);
+    }
+  }
+
+  return Array.from(selected.values());
+}
+
+const redeliverWebhookDeliveriesCommand = createBaseCommand({
+  name: 'redeliver-webhook-deliveries',
+  description:
+    'Redeliver failed webhook deliveries within a time window for organization and repository webhooks',
+})
+  .addOption(
+    new Option(
+      '--since <since>',
+      'Only redeliver deliveries at or after this date/time (ISO 8601)',
+    )
+      .env('REDELIVER_SINCE')
+      .makeOptionMandatory(),
+  )
+  .addOption(
+    new Option(
+      '--until <until>',
+      'Only redeliver deliveries at or before this date/time (ISO 8601), defaults to now',
+    ).env('REDELIVER_UNTIL'),
+  )
+  .addOption(
+    new Option(
+      '--events <events>',
+      'Comma-separated list of event types to redeliver (e.g. push,pull_request)',
+    ).env('REDELIVER_EVENTS'),
+  )
+  .addOption(
+    new Option(
+      '--url-host <urlHost>',
+      'Only redeliver for webhooks whose URL host matches this value',
+    ).env('REDELIVER_URL_HOST'),
+  )
+  .addOption(
+    new Option(
+      '--scope <scope>',
+      'Which webhooks to include: organization hooks, repository hooks, or both',
+    )
+      .choices(['org', 'repo', 'all'])
+      .env('WEBHOOK_SCOPE')
+      .default('all'),
+  )
+  .addOption(
+    new Option(
+      '--delay-ms <delayMs>',
+      'Delay in milliseconds between redelivery requests',
+    )
+      .env('REDELIVER_DELAY_MS')
+      .default('1000'),
+  )
+  .addOption(
+    new Option(
+      '--min-rate-limit-remaining <minRateLimitRemaining>',
+      'Pause until the rate limit resets when fewer requests than this remain',
+    ).default('100'),
+  )
+  .addOption(
+    new Option(
+      '--max-deliveries <maxDeliveries>',
+      'Maximum number of deliveries to inspect per webhook',
+    )
+      .env('MAX_DELIVERIES')
+      .default('1000'),
+  )
+  .addOption(
+    new Option('--csv-output <csvOutput>', 'Path to write CSV log file')
+      .env('CSV_OUTPUT')
+      .default('./webhook-redeliveries.csv'),
+  )
+  .addOption(
+    new Option(
+      '--dry-run [dryRun]',
+      'Only log the deliveries that would be redelivered',
+    )
+      .env('DRY_RUN')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting webhook redelivery...');
+
+      const since = new Date(options.since);
+      const until = options.until ? new Date(options.until) : new Date();
+
+      if (isNaN(since.getTime()) || isNaN(until.getTime())) {
+        logger.error('--since and --until must be valid ISO 8601 dates');
+        process.exitCode = 1;
+        return;
+      }
+
+      const delayMs = parseIntegerOption(options.delayMs, 0);
+      const minRateLimitRemaining = parseIntegerOption(
+        options.minRateLimitRemaining,
+        0,
+      );
+      const maxDeliveries = parseIntegerOption(options.maxDeliveries);
+      if (
+        delayMs === null ||
+        minRateLimitRemaining === null ||
+        maxDeliveries === null
+      ) {
+        logger.error(
+          '--delay-ms and --min-rate-limit-remaining must be integers of 0 or more, --max-deliveries a positive integer',
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const events: string[] = options.events
+        ? options.events
+            .split(',')
+            .map((e: string) => e.trim())
+            .filter((e: string) => e.length > 0)
+        : [];
+      const urlHost: string | undefined = options.urlHost?.toLowerCase();
+
+      if (options.dryRun) {
+        logger.info('Dry run enabled, no deliveries will be redelivered');
+      }
+
+      logger.info(
+        `Selecting failed deliveries between ${since.toISOString()} and ${until.toISOString()}`,
+      );
+
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      const csvHeaders = [
+        'Timestamp',
+        'Type',
+        'Organization',
+        'Repository',
+        'Webhook ID',
+        'Webhook URL',
+        'Delivery ID',
+        'GUID',
+        'Event',
+        'Action',
+        'Delivered At',
+        'Status Code',
+        'Result',
+        'Message',
+      ];
+      fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
+
+      const writeLogEntry = (entry: RedeliveryLogEntry) => {
+        const csvRow = [
+          entry.timestamp,
+          entry.webhook.type,
+          entry.webhook.organizationName,
+          entry.webhook.repositoryName || '',
+          entry.webhook.id,
+          `"${entry.webhook.url}"`,
+          entry.delivery.id,
+          entry.delivery.guid,
+          entry.delivery.event,
+          entry.delivery.action || '',
+          entry.delivery.deliveredAt,
+          entry.delivery.statusCode,
+          entry.result,
+          `"${entry.message.replace(/"/g, '""')}"`,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      };
+
+      let redelivered = 0;
+      let failed = 0;
+      let selectedTotal = 0;
+      let consecutiveFailures = 0;
+
+      for await (const webhook of listOrganizationWebhooks(
+        octokit,
+        opts.orgName,
+        {
+          scope: options.scope,
+          onlyActiveRepos: true,
+          onlyActiveWebhooks: false,
+        },
+        logger,
+      )) {
+        if (urlHost) {
+          let host: string | null = null;
+          try {
+            host = new URL(webhook.url).host.toLowerCase();
+          } catch {
+            host = null;
+          }
+          if (host !== urlHost) continue;
+        }
+
+        const hookLabel = describeWebhook(webhook);
+
+        let deliveries: WebhookDelivery[];
+        try {
+          deliveries = await getWebhookDeliveries(
+            octokit,
+            webhook,
+            since,
+            maxDeliveries,
+            until,
+          );
+        } catch (error: any) {
+          logger.warn(
+            `Error fetching deliveries for ${hookLabel}: ${error.message}`,
+          );
+          continue;
+        }
+
+        const inWindow = deliveries.filter(
+          (d) => new Date(d.deliveredAt) <= until,
+        ).length;
+        if (inWindow >= maxDeliveries) {
+          logger.warn(
+            `${hookLabel}: stopped after ${maxDeliveries} deliveries in the window, older deliveries were not inspected (raise --max-deliveries)`,
+          );
+        }
+
+        const selected = selectFailedDeliveries(deliveries, until, events);
+        if (selected.length === 0) continue;
+
+        selectedTotal += selected.length;
+        logger.info(
+          `${hookLabel}: ${selected.length} failed deliveries selected for redelivery`,
+        );
+
+        for (const delivery of selected) {
+          if (options.dryRun) {
+            writeLogEntry({
+              timestamp: new Date().toISOString(),
+              webhook,
+              delivery,
+              result: 'dry-run',
+              message: 'Would redeliver',
+            });
+            continue;
+          }
+
+          try {
+            const response = await redeliverWebhookDelivery(
+              octokit,
+              webhook,
+              delivery.id,
+            );
+            redelivered++;
+            consecutiveFailures = 0;
+            writeLogEntry({
+              timestamp: new Date().toISOString(),
+              webhook,
+              delivery,
+              result: 'redelivered',
+              message: `HTTP ${response.status}`,
+            });
+
+            // Pace requests, waiting for the rate limit window to reset when running low
+            const remaining = parseInt(
+              String(response.headers['x-ratelimit-remaining'] ?? ''),
+              10,
+            );
+            const reset = parseInt(
+              String(response.headers['x-ratelimit-reset'] ?? ''),
+              10,
+            );
+            if (
+              !isNaN(remaining) &&
+              !isNaN(reset) &&
+              remaining < minRateLimitRemaining
+            ) {
+              const waitMs = Math.max(reset * 1000 - Date.now(), 0) + 1000;
+              logger.warn(
+                `Rate limit remaining ${remaining}, waiting ${Math.ceil(waitMs / 1000)}s for reset`,
+              );
+              await sleep(waitMs);
+            } else {
+              await sleep(delayMs);
+            }
+          } catch (error: any) {
+            failed++;
+            consecutiveFailures++;
+            logger.warn(
+              `Failed to redeliver delivery ${delivery.id} for ${hookLabel}: ${error.message}`,
+            );
+            writeLogEntry({
+              timestamp: new Date().toISOString(),
+              webhook,
+              delivery,
+              result: 'failed',
+              message: error.message,
+            });
+
+            // Back off on failures, honouring Retry-After on secondary rate limits
+            const retryAfter = parseInt(
+              String(error.response?.headers?.['retry-after'] ?? ''),
+              10,
+            );
+            const waitMs = !isNaN(retryAfter)
+              ? retryAfter * 1000
+              : Math.min(
+                  Math.max(delayMs, 1000) * Math.pow(2, consecutiveFailures),
+                  60000,
+                );
+            if (error.status === 403 || error.status === 429) {
+              logger.warn(
+                `Rate limited, waiting ${Math.ceil(waitMs / 1000)}s before continuing`,
+              );
+            }
+            await sleep(waitMs);
+          }
+        }
+      }
+
+      logger.info('=== Webhook Redelivery Summary ===');
+      logger.info(`Failed deliveries selected: ${selectedTotal}`);
+      if (options.dryRun) {
+        logger.info('Dry run, nothing was redelivered');
+      } else {
+        logger.info(`Redeliveries requested: ${redelivered}`);
+        logger.info(`Redelivery requests failed: ${failed}`);
+      }
+      logger.info(`Redelivery log written to ${csvFilename}`);
+
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default redeliverWebhookDeliveriesCommand;
@@ -0,0 +1,342 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  describeWebhook,
+  getBaseUrl,
+  listOrganizationWebhooks,
+  updateWebhookConfig,
+  WebhookRef,
+} from '../utils/webhooks.js';
+
+interface WebhookRewriteRecord extends WebhookRef {
+  originalUrl: string;
+  newUrl: string;
+  contentType?: string;
+  insecureSSL?: string;
+  appliedAt?: string;
+}
+
+/**
+ * Read a JSON mapping of old base URL to new base URL
+ */
+function readBaseUrlMapping(mappingFile: string): Map<string, string> {
+  const data = JSON.parse(fs.readFileSync(mappingFile, 'utf-8'));
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(
+      'Mapping file must contain a JSON object of "old base URL": "new base URL"',
+    );
+  }
+
+  const mapping = new Map<string, string>();
+  for (const [oldBaseUrl, newBaseUrl] of Object.entries(data)) {
+    addBaseUrlMapping(mapping, oldBaseUrl, String(newBaseUrl));
+  }
+  return mapping;
+}
+
+function addBaseUrlMapping(
+  mapping: Map<string, string>,
+  oldBaseUrl: string,
+  newBaseUrl: string,
+): void {
+  const normalizedOld = getBaseUrl(oldBaseUrl);
+  if (!normalizedOld) {
+    throw new Error(`Invalid base URL in mapping: ${oldBaseUrl}`);
+  }
+  if (!getBaseUrl(newBaseUrl)) {
+    throw new Error(`Invalid base URL in mapping: ${newBaseUrl}`);
+  }
+  mapping.set(normalizedOld.toLowerCase(), newBaseUrl.replace(/\/+$/, ''));
+}
+
+/**
+ * Read the records written to a rollback file by a previous run
+ */
+function readRollbackRecords(rollbackFile: string): WebhookRewriteRecord[] {
+  const data = JSON.parse(fs.readFileSync(rollbackFile, 'utf-8'));
+
+  if (
+    !Array.isArray(data) ||
+    data.some(
+      (record) =>
+        typeof record !== 'object' ||
+        record === null ||
+        typeof record.id !== 'number' ||
+        typeof record.originalUrl !== 'string',
+    )
+  ) {
+    throw new Error(
+      'Rollback file must contain a JSON array of records written by rewrite-webhooks',
+    );
+  }
+  return data;
+}
+
+/**
+ * Rewrite a webhook URL onto a new base URL, keeping its path and query
+ * @returns The rewritten URL, or null when the base URL is not mapped
+ */
+function rewriteWebhookUrl(
+  webhookUrl: string,
+  mapping: Map<string, string>,
+): string | null {
+  const baseUrl = getBaseUrl(webhookUrl);
+  if (!baseUrl) return null;
+
+  const newBaseUrl = mapping.get(baseUrl.toLowerCase());
+  if (!newBaseUrl) return null;
+
+  const url = new URL(webhookUrl);
+  const pathname = url.pathname === '/' ? '' : url.pathname;
+  return `${newBaseUrl}${pathname}${url.search}`;
+}
+
+const rewriteWebhooksCommand = createBaseCommand({
+  name: 'rewrite-webhooks',
+  description:
+    'Point organization and repository webhooks at a new base URL, keeping path, query, secret and content type',
+})
+  .addOption(
+    new Option(
+      '--mapping-file <mappingFile>',
+      'Path to a JSON file mapping old base URLs to new base URLs',
+    ).env('WEBHOOK_URL_MAPPING_FILE'),
+  )
+  .addOption(
+    new Option(
+      '--from-base-url <fromBaseUrl>',
+      'Old base URL to replace (alternative to --mapping-file)',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--to-base-url <toBaseUrl>',
+      'New base URL to use (alternative to --mapping-file)',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--restore-from <restoreFrom>',
+      'Restore original webhook URLs from a rollback file written by a previous run',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--scope <scope>',
+      'Which webhooks to include: organization hooks, repository hooks, or both',
+    )
+      .choices(['org', 'repo', 'all'])
+      .env('WEBHOOK_SCOPE')
+      .default('all'),
+  )
+  .addOption(
+    new Option(
+      '--rollback-file <rollbackFile>',
+      'Path to write the rollback file recording original webhook configs',
+    ).default('./webhook-rewrite-rollback.json'),
+  )
+  .addOption(
+    new Option(
+      '--overwrite-rollback [overwriteRollback]',
+      'Overwrite an existing rollback file (its records can no longer be restored)',
+    )
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .addOption(
+    new Option('--dry-run [dryRun]', 'Only preview the URL changes')
+      .env('DRY_RUN')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting webhook URL rewrite...');
+
+      if (options.dryRun) {
+        logger.info('Dry run enabled, no webhooks will be updated');
+      }
+
+      // Restore mode puts each webhook back to the URL recorded before the rewrite
+      if (options.restoreFrom) {
+        let records: WebhookRewriteRecord[];
+        try {
+          records = readRollbackRecords(options.restoreFrom);
+        } catch (error: any) {
+          logger.error(`Error reading rollback file: ${error.message}`);
+          process.exitCode = 1;
+          return;
+        }
+        logger.info(
+          `Restoring ${records.length} webhook(s) from ${options.restoreFrom}`,
+        );
+
+        let restored = 0;
+        for (const record of records) {
+          logger.info(
+            `${describeWebhook(record)}:\n  - ${record.newUrl}\n  + ${record.originalUrl}`,
+          );
+          if (options.dryRun) continue;
+
+          try {
+            await updateWebhookConfig(octokit, record, {
+              url: record.originalUrl,
+            });
+            restored++;
+          } catch (error: any) {
+            logger.error(
+              `Failed to restore ${describeWebhook(record)}: ${error.message}`,
+            );
+          }
+        }
+
+        logger.info(`Restored ${restored} of ${records.length} webhook(s)`);
+        if (!options.dryRun && restored < records.length) {
+          process.exitCode = 1;
+        }
+        logger.info('Finished');
+        return;
+      }
+
+      // Refuse to replace the record of a previous run before doing any work
+      const rollbackFilename = path.resolve(
+        process.cwd(),
+        options.rollbackFile,
+      );
+      if (
+        !options.dryRun &&
+        !options.overwriteRollback &&
+        fs.existsSync(rollbackFilename)
+      ) {
+        logger.error(
+          `Rollback file ${rollbackFilename} already exists, restore it first, pass a different --rollback-file or use --overwrite-rollback`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      let mapping: Map<string, string>;
+      try {
+        if (options.mappingFile) {
+          mapping = readBaseUrlMapping(options.mappingFile);
+        } else if (options.fromBaseUrl && options.toBaseUrl) {
+          mapping = new Map<string, string>();
+          addBaseUrlMapping(mapping, options.fromBaseUrl, options.toBaseUrl);
+        } else {
+          logger.error(
+            'Either --mapping-file, both --from-base-url and --to-base-url, or --restore-from must be provided',
+          );
+          return;
+        }
+      } catch (error: any) {
+        logger.error(`Error reading base URL mapping: ${error.message}`);
+        return;
+      }
+
+      for (const [oldBaseUrl, newBaseUrl] of mapping) {
+        logger.info(`Mapping ${oldBaseUrl} -> ${newBaseUrl}`);
+      }
+
+      const planned: WebhookRewriteRecord[] = [];
+
+      for await (const webhook of listOrganizationWebhooks(
+        octokit,
+        opts.orgName,
+        {
+          scope: options.scope,
+          onlyActiveRepos: false,
+          onlyActiveWebhooks: false,
+        },
+        logger,
+      )) {
+        const newUrl = rewriteWebhookUrl(webhook.url, mapping);
+        if (!newUrl || newUrl === webhook.url) continue;
+
+        planned.push({
+          type: webhook.type,
+          organizationName: webhook.organizationName,
+          repositoryName: webhook.repositoryName,
+          id: webhook.id,
+          originalUrl: webhook.url,
+          newUrl,
+          contentType: webhook.contentType,
+          insecureSSL: webhook.insecureSSL,
+        });
+      }
+
+      if (planned.length === 0) {
+        logger.info('No webhooks matched the base URL mapping');
+        logger.info('Finished');
+        return;
+      }
+
+      // Diff preview
+      logger.info(`=== ${planned.length} webhook(s) to rewrite ===`);
+      for (const record of planned) {
+        logger.info(
+          `${describeWebhook(record)}:\n  - ${record.originalUrl}\n  + ${record.newUrl}`,
+        );
+      }
+
+      if (options.dryRun) {
+        logger.info('Dry run, no webhooks were updated');
+        logger.info('Finished');
+        return;
+      }
+
+      // Write the rollback file before changing anything, then keep it current
+      const applied: WebhookRewriteRecord[] = [];
+      fs.writeFileSync(rollbackFilename, JSON.stringify(applied, null, 2));
+      logger.info(`Recording original configs in ${rollbackFilename}`);
+
+      let failed = 0;
+      for (const record of planned) {
+        try {
+          // Content type and SSL setting are sent back unchanged; the secret is
+          // omitted so the config endpoint leaves it as is
+          await updateWebhookConfig(octokit, record, {
+            url: record.newUrl,
+            content_type: record.contentType,
+            insecure_ssl: record.insecureSSL,
+          });
+
+          applied.push({ ...record, appliedAt: new Date().toISOString() });
+          fs.writeFileSync(rollbackFilename, JSON.stringify(applied, null, 2));
+
+          logger.info(`Updated ${describeWebhook(record)}`);
+        } catch (error: any) {
+          failed++;
+          logger.error(
+            `Failed to update ${describeWebhook(record)}: ${error.message}`,
+          );
+        }
+      }
+
+      logger.info('=== Webhook Rewrite Summary ===');
+      logger.info(`Webhooks matched: ${planned.length}`);
+      logger.info(`Webhooks updated: ${applied.length}`);
+      logger.info(`Webhooks failed: ${failed}`);
+      logger.info(
+        `Rollback file written to ${rollbackFilename} (use --restore-from to revert)`,
+      );
+      if (failed > 0) {
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default rewriteWebhooksCommand;
@@ -0,0 +1,247 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import { Octokit } from 'octokit';
+import * as path from 'path';
+import { readRepositoryNames } from '../utils.js';
+import { ExportIdPair, writeExportIdsToFile } from '../utils/migrations.js';
+
+interface MigrationExcludeOptions {
+  exclude_git_data: boolean;
+  exclude_metadata: boolean;
+  exclude_releases: boolean;
+  exclude_attachments: boolean;
+  lock_repositories: boolean;
+}
+
+function booleanOption(flags: string, description: string, env: string) {
+  return new Option(flags, description)
+    .env(env)
+    .default(false)
+    .argParser((value) => {
+      if (typeof value === 'boolean') return value;
+      return value === 'true';
+    });
+}
+
+async function startMigration(
+  octokit: Octokit,
+  logger: { info(message: string): void },
+  orgName: string,
+  repositories: string[],
+  settings: MigrationExcludeOptions,
+  exportType: string,
+): Promise<number> {
+  const response = await octokit.rest.migrations.startForOrg({
+    org: orgName,
+    repositories,
+    ...settings,
+  });
+
+  logger.info(
+    `${exportType} export started with id: ${response.data.id} - State: ${response.data.state}`,
+  );
+  return response.data.id;
+}
+
+const startOrgMigrationCommand = createBaseCommand({
+  name: 'start-org-migration',
+  description:
+    'Start organization migration exports for a list of repositories',
+})
+  .addOption(
+    booleanOption(
+      '--exclude-git-data [excludeGitData]',
+      'Exclude repository git data from the export',
+      'EXCLUDE_GIT_DATA',
+    ),
+  )
+  .addOption(
+    booleanOption(
+      '--exclude-metadata [excludeMetadata]',
+      'Exclude metadata (issues, pull requests, etc.) from the export',
+      'EXCLUDE_METADATA',
+    ),
+  )
+  .addOption(
+    booleanOption(
+      '--exclude-releases [excludeReleases]',
+      'Exclude releases from the export',
+      'EXCLUDE_RELEASES',
+    ),
+  )
+  .addOption(
+    booleanOption(
+      '--exclude-attachments [excludeAttachments]',
+      'Exclude attachments from the export',
+      'EXCLUDE_ATTACHMENTS',
+    ),
+  )
+  .addOption(
+    booleanOption(
+      '--lock-repositories [lockRepositories]',
+      'Lock the repositories while they are exported',
+      'LOCK_REPOSITORIES',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--paired [paired]',
+      'Start a git export and a metadata export for each batch instead of a single export',
+    )
+      .env('PAIRED_EXPORTS')
+      .default(true)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .addOption(
+    new Option(
+      '--batch-size <batchSize>',
+      'Number of repositories per export (defaults to all in one export)',
+    ).env('MIGRATION_BATCH_SIZE'),
+  )
+  .addOption(
+    new Option(
+      '--output-file <outputFile>',
+      'Path to write the export IDs JSON (pairs are used by migration-export-status --json-file)',
+    )
+      .env('JSON_FILE')
+      .default('./migration-export-ids.json'),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting...');
+
+      const repoNames = readRepositoryNames(options.repoList, logger);
+      if (repoNames.length === 0) {
+        return;
+      }
+
+      const settings: MigrationExcludeOptions = {
+        exclude_git_data: options.excludeGitData,
+        exclude_metadata: options.excludeMetadata,
+        exclude_releases: options.excludeReleases,
+        exclude_attachments: options.excludeAttachments,
+        lock_repositories: options.lockRepositories,
+      };
+
+      if (
+        options.paired &&
+        (settings.exclude_git_data || settings.exclude_metadata)
+      ) {
+        logger.error(
+          '--exclude-git-data and --exclude-metadata cannot be used with paired exports, use --paired false',
+        );
+        return;
+      }
+
+      if (
+        options.batchSize !== undefined &&
+        !/^[1-9]\d*$/.test(String(options.batchSize))
+      ) {
+        logger.error(
+          `Invalid --batch-size: ${options.batchSize} (expected a positive integer)`,
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      const batchSize = options.batchSize
+        ? parseInt(options.batchSize, 10)
+        : repoNames.length;
+      const batches: string[][] = [];
+      for (let i = 0; i < repoNames.length; i += batchSize) {
+        batches.push(repoNames.slice(i, i + batchSize));
+      }
+
+      const exportIds: ExportIdPair[] = [];
+      const migrationIds: number[] = [];
+      let failedBatches = 0;
+
+      for (const [index, repositories] of batches.entries()) {
+        const prefix = `[${index + 1}/${batches.length}] `;
+        logger.info(
+          `${prefix}Starting export for ${repositories.length} repositories`,
+        );
+
+        let gitExportId: number | undefined;
+        try {
+          if (!options.paired) {
+            migrationIds.push(
+              await startMigration(
+                octokit,
+                logger,
+                opts.orgName,
+                repositories,
+                settings,
+                `${prefix}Organization`,
+              ),
+            );
+            continue;
+          }
+
+          // Repositories are locked by the git export, which is started first
+          gitExportId = await startMigration(
+            octokit,
+            logger,
+            opts.orgName,
+            repositories,
+            { ...settings, exclude_metadata: true },
+            `${prefix}Git`,
+          );
+          const metadataExportId = await startMigration(
+            octokit,
+            logger,
+            opts.orgName,
+            repositories,
+            { ...settings, exclude_git_data: true, lock_repositories: false },
+            `${prefix}Metadata`,
+          );
+
+          exportIds.push({ metadataExportId, gitExportId });
+        } catch (error: any) {
+          failedBatches++;
+          logger.error(`${prefix}Failed to start export: ${error.message}`);
+
+          // Keep the git export of a half-started pair so its locks can be found and released
+          if (gitExportId !== undefined) {
+            migrationIds.push(gitExportId);
+            logger.error(
+              `${prefix}Git export ${gitExportId} was started without its metadata export`,
+            );
+            if (settings.lock_repositories) {
+              logger.error(
+                `${prefix}Unlock its repositories with unlock-org-repository --migration-id ${gitExportId} --all-in-migration`,
+              );
+            }
+          }
+        }
+      }
+
+      const outputFile = path.resolve(process.cwd(), options.outputFile);
+      await writeExportIdsToFile(outputFile, exportIds, migrationIds);
+      if (options.paired) {
+        logger.info(
+          `Wrote ${exportIds.length} export ID pair(s) to ${outputFile}, check progress with migration-export-status --json-file ${options.outputFile}`,
+        );
+      }
+      if (migrationIds.length > 0) {
+        logger.info(
+          `Wrote ${migrationIds.length} unpaired export ID(s) to ${outputFile}, check progress with migration-export-status --json-file ${options.outputFile}`,
+        );
+      }
+
+      if (failedBatches > 0) {
+        logger.error(`${failedBatches} batch(es) failed to start`);
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default startOrgMigrationCommand;
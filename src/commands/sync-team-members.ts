@@ -0,0 +1,365 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { parse } from 'csv-parse/sync';
+import * as fs from 'fs';
+import * as path from 'path';
+import { confirmAction } from '../utils.js';
+import { getTeamMembers, TeamMember, TeamRole } from '../utils/teams.js';
+
+import { Option } from 'commander';
+
+// Desired members of a team keyed by lowercase login
+type DesiredMembers = Map<string, { login: string; role?: TeamRole }>;
+
+interface TeamMembershipChange {
+  teamSlug: string;
+  username: string;
+  action: 'add' | 'remove' | 'role-change';
+  fromRole: TeamRole | '';
+  toRole: TeamRole | '';
+}
+
+/**
+ * Read the desired team rosters from a CSV in the list-team-members format
+ * @returns Map of team slug to desired members
+ */
+function readDesiredMembers(
+  csvFile: string,
+  orgName: string,
+  logger: any,
+): Map<string, DesiredMembers> {
+  const records: Record<string, string>[] = parse(
+    fs.readFileSync(csvFile, 'utf-8'),
+    {
+      trim: true,
+      skip_empty_lines: true,
+      columns: true,
+    },
+  );
+
+  const desired = new Map<string, DesiredMembers>();
+
+  for (const [index, record] of records.entries()) {
+    const organization = record['Organization'];
+    const teamSlug = record['Team Slug'];
+    const login = record['Username'];
+    const role = record['Role']?.toLowerCase();
+
+    if (!teamSlug || !login) {
+      throw new Error(
+        `Row ${index + 2} is missing a Team Slug or Username value`,
+      );
+    }
+    if (organization && organization !== orgName) {
+      logger.warn(
+        `Skipping row ${index + 2} for organization ${organization} (running against ${orgName})`,
+      );
+      continue;
+    }
+    // Members inherited through a child team are managed on that child team
+    if (record['Inherited Via']) {
+      continue;
+    }
+    if (role && role !== 'member' && role !== 'maintainer') {
+      throw new Error(
+        `Row ${index + 2} has an invalid Role "${record['Role']}" (expected member or maintainer)`,
+      );
+    }
+
+    if (!desired.has(teamSlug)) {
+      desired.set(teamSlug, new Map());
+    }
+    desired.get(teamSlug)!.set(login.toLowerCase(), {
+      login,
+      role: role as TeamRole | undefined,
+    });
+  }
+
+  return desired;
+}
+
+/**
+ * Compare desired and live members of a team
+ * Desired members who only have access through a child team are left alone,
+ * they are managed on that child team rather than added directly
+ */
+function planTeamChanges(
+  teamSlug: string,
+  desired: DesiredMembers,
+  live: TeamMember[],
+  inherited: Set<string>,
+  allowRemove: boolean,
+): TeamMembershipChange[] {
+  const changes: TeamMembershipChange[] = [];
+  const liveByLogin = new Map(live.map((m) => [m.login.toLowerCase(), m]));
+
+  for (const [key, member] of desired) {
+    const liveMember = liveByLogin.get(key);
+    if (!liveMember) {
+      if (inherited.has(key)) continue;
+      changes.push({
+        teamSlug,
+        username: member.login,
+        action: 'add',
+        fromRole: '',
+        toRole: member.role || 'member',
+      });
+    } else if (member.role && member.role !== liveMember.role) {
+      changes.push({
+        teamSlug,
+        username: liveMember.login,
+        action: 'role-change',
+        fromRole: liveMember.role,
+        toRole: member.role,
+      });
+    }
+  }
+
+  // Only direct members can be removed from the team
+  if (allowRemove) {
+    for (const [key, liveMember] of liveByLogin) {
+      if (!desired.has(key)) {
+        changes.push({
+          teamSlug,
+          username: liveMember.login,
+          action: 'remove',
+          fromRole: liveMember.role,
+          toRole: '',
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+const syncTeamMembersCommand = createBaseCommand({
+  name: 'sync-team-members',
+  description:
+    'Sync team memberships in a GitHub organization from a CSV in the list-team-members format',
+})
+  .addOption(
+    new Option(
+      '--input-file <inputFile>',
+      'CSV with Organization, Team Slug, Username and optional Role columns',
+    )
+      .env('TEAM_MEMBERS_FILE')
+      .makeOptionMandatory(),
+  )
+  .addOption(
+    new Option(
+      '--changelog-output <changelogOutput>',
+      'Path to write the CSV changelog',
+    )
+      .env('CSV_OUTPUT')
+      .default('./team-members-changelog.csv'),
+  )
+  .addOption(
+    new Option(
+      '--no-remove',
+      'Never remove members that are missing from the CSV',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--yes',
+      'Apply the plan without asking for confirmation (required outside a terminal)',
+    ),
+  )
+  .addOption(
+    new Option('--dry-run [dryRun]', 'Only show the plan')
+      .env('DRY_RUN')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting team members sync...');
+
+      let desired: Map<string, DesiredMembers>;
+      try {
+        desired = readDesiredMembers(options.inputFile, opts.orgName, logger);
+      } catch (error: any) {
+        logger.error(
+          `Error reading team members from ${options.inputFile}: ${error.message}`,
+        );
+        return;
+      }
+
+      logger.info(`Found ${desired.size} team(s) in ${options.inputFile}`);
+      if (!options.remove) {
+        logger.info('--no-remove set, members will only be added or updated');
+      }
+
+      // Plan
+      const teamMap = new Map<string, TeamMember[]>();
+      const changes: TeamMembershipChange[] = [];
+
+      for (const [teamSlug, desiredMembers] of desired) {
+        try {
+          const live = await getTeamMembers(
+            octokit,
+            opts.orgName,
+            teamSlug,
+            teamSlug,
+            teamMap,
+            logger,
+            'immediate',
+          );
+          // The default list-team-members output also lists members of child teams
+          const allMembers = await getTeamMembers(
+            octokit,
+            opts.orgName,
+            teamSlug,
+            teamSlug,
+            teamMap,
+            logger,
+            'all',
+          );
+          const direct = new Set(live.map((m) => m.login.toLowerCase()));
+          const inherited = new Set(
+            allMembers
+              .map((member) => member.login.toLowerCase())
+              .filter((login) => !direct.has(login)),
+          );
+          changes.push(
+            ...planTeamChanges(
+              teamSlug,
+              desiredMembers,
+              live,
+              inherited,
+              options.remove,
+            ),
+          );
+        } catch (error: any) {
+          logger.error(
+            `Error fetching members for team ${teamSlug}, skipping it: ${error.message}`,
+          );
+        }
+      }
+
+      logger.info('=== Team Membership Plan ===');
+      if (changes.length === 0) {
+        logger.info('No changes needed, teams already match the CSV');
+        logger.info('Finished');
+        return;
+      }
+
+      for (const change of changes) {
+        const detail =
+          change.action === 'role-change'
+            ? `${change.fromRole} -> ${change.toRole}`
+            : change.toRole || change.fromRole;
+        logger.info(
+          `${change.teamSlug}: ${change.action} ${change.username} (${detail})`,
+        );
+      }
+
+      const countByAction = (action: string) =>
+        changes.filter((c) => c.action === action).length;
+      logger.info(
+        `Plan: ${countByAction('add')} to add, ${countByAction('remove')} to remove, ${countByAction('role-change')} role change(s)`,
+      );
+
+      const changelogFilename = path.resolve(
+        process.cwd(),
+        options.changelogOutput,
+      );
+      const csvHeaders = [
+        'Timestamp',
+        'Organization',
+        'Team Slug',
+        'Username',
+        'Action',
+        'From Role',
+        'To Role',
+        'Result',
+        'Message',
+      ];
+      fs.writeFileSync(changelogFilename, csvHeaders.join(',') + '\n');
+
+      const writeChange = (
+        change: TeamMembershipChange,
+        result: string,
+        message = '',
+      ) => {
+        const csvRow = [
+          new Date().toISOString(),
+          opts.orgName,
+          change.teamSlug,
+          change.username,
+          change.action,
+          change.fromRole,
+          change.toRole,
+          result,
+          `"${message.replace(/"/g, '""')}"`,
+        ];
+        fs.appendFileSync(changelogFilename, csvRow.join(',') + '\n');
+      };
+
+      if (options.dryRun) {
+        changes.forEach((change) => writeChange(change, 'dry-run'));
+        logger.info(`Dry run, plan written to ${changelogFilename}`);
+        logger.info('Finished');
+        return;
+      }
+
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          logger.error(
+            'Not running in an interactive terminal, pass --yes to apply the plan without confirmation',
+          );
+          process.exitCode = 1;
+          return;
+        }
+        if (!(await confirmAction(`Apply ${changes.length} change(s)?`))) {
+          logger.info('Aborted, no changes were applied');
+          return;
+        }
+      }
+
+      // Apply
+      let applied = 0;
+      let failed = 0;
+      for (const change of changes) {
+        try {
+          if (change.action === 'remove') {
+            await octokit.rest.teams.removeMembershipForUserInOrg({
+              org: opts.orgName,
+              team_slug: change.teamSlug,
+              username: change.username,
+            });
+          } else {
+            await octokit.rest.teams.addOrUpdateMembershipForUserInOrg({
+              org: opts.orgName,
+              team_slug: change.teamSlug,
+              username: change.username,
+              role: change.toRole as TeamRole,
+            });
+          }
+          applied++;
+          writeChange(change, 'applied');
+        } catch (error: any) {
+          failed++;
+          logger.error(
+            `Failed to ${change.action} ${change.username} on ${change.teamSlug}: ${error.message}`,
+          );
+          writeChange(change, 'failed', error.message);
+        }
+      }
+
+      logger.info('=== Team Membership Sync Summary ===');
+      logger.info(`Changes applied: ${applied}`);
+      logger.info(`Changes failed: ${failed}`);
+      logger.info(`Changelog written to ${changelogFilename}`);
+
+      logger.info('Finished');
+    });
+  });
+
+export default syncTeamMembersCommand;
@@ -0,0 +1,330 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getTeamMembers,
+  getTeamRepositories,
+  listOrganizationTeams,
+  parseTeamNames,
+  permissionRank,
+  resolveTeams,
+  TeamDetails,
+  TeamMember,
+  TeamRepositoryPermission,
+} from '../utils/teams.js';
+
+import { Option } from 'commander';
+
+interface TeamRepoAccess extends TeamRepositoryPermission {
+  teamSlug: string;
+  // Ancestor team the permission comes from, empty for direct grants
+  inheritedFrom: string;
+}
+
+interface UserRepoAccess extends TeamRepositoryPermission {
+  login: string;
+  grantedVia: string[];
+}
+
+/**
+ * Get the child teams of a team, nearest first
+ */
+function getDescendantTeams(
+  team: TeamDetails,
+  orgTeams: TeamDetails[],
+): TeamDetails[] {
+  const descendants: TeamDetails[] = [];
+  const queue = [team.slug];
+  while (queue.length > 0) {
+    const parentSlug = queue.shift();
+    for (const child of orgTeams.filter((t) => t.parentSlug === parentSlug)) {
+      descendants.push(child);
+      queue.push(child.slug);
+    }
+  }
+  return descendants;
+}
+
+const teamRepoAccessCommand = createBaseCommand({
+  name: 'team-repo-access',
+  description:
+    'Export which teams have which permission on which repositories in a GitHub organization',
+})
+  .addOption(
+    new Option(
+      '--teams <teams>',
+      'Comma-separated list of team names, slugs or wildcard patterns (defaults to all teams)',
+    ).env('TEAMS'),
+  )
+  .addOption(
+    new Option('--csv-output <csvOutput>', 'Path to write the long-form CSV')
+      .env('CSV_OUTPUT')
+      .default('./team-repo-access.csv'),
+  )
+  .addOption(
+    new Option(
+      '--matrix-output <matrixOutput>',
+      'Path to write the repository by team matrix CSV',
+    ).default('./team-repo-access-matrix.csv'),
+  )
+  .addOption(
+    new Option(
+      '--expand-users [expandUsers]',
+      'Also write the effective permission of each team member on each repository',
+    )
+      .env('EXPAND_USERS')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .addOption(
+    new Option(
+      '--user-output <userOutput>',
+      'Path to write the per-user CSV when --expand-users is set',
+    ).default('./team-repo-user-access.csv'),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting team repository access export...');
+
+      const orgTeams = await listOrganizationTeams(octokit, opts.orgName);
+      const teamsBySlug = new Map(orgTeams.map((team) => [team.slug, team]));
+
+      let teams: TeamDetails[] = orgTeams;
+      if (options.teams) {
+        const resolution = resolveTeams(
+          parseTeamNames(options.teams),
+          orgTeams,
+        );
+        for (const { input, suggestions } of resolution.unresolved) {
+          logger.warn(
+            `Could not resolve team "${input}"${suggestions.length > 0 ? `, did you mean: ${suggestions.join(', ')}?` : ''}`,
+          );
+        }
+        teams = resolution.teams;
+      }
+
+      if (teams.length === 0) {
+        logger.error('No teams to process');
+        return;
+      }
+
+      logger.info(`Processing ${teams.length} team(s)`);
+
+      const repoMap = new Map<string, TeamRepositoryPermission[]>();
+      const access: TeamRepoAccess[] = [];
+
+      for (const team of teams) {
+        try {
+          logger.info(`Fetching repositories for team: ${team.slug}`);
+
+          // Keep the highest permission per repository across the team and its ancestors
+          const teamAccess = new Map<string, TeamRepoAccess>();
+          let current: TeamDetails | undefined = team;
+          while (current) {
+            const grants = await getTeamRepositories(
+              octokit,
+              opts.orgName,
+              current.slug,
+              repoMap,
+            );
+            for (const grant of grants) {
+              const existing = teamAccess.get(grant.repository);
+              if (
+                !existing ||
+                permissionRank(grant) > permissionRank(existing)
+              ) {
+                teamAccess.set(grant.repository, {
+                  ...grant,
+                  teamSlug: team.slug,
+                  inheritedFrom: current === team ? '' : current.slug,
+                });
+              }
+            }
+            current = current.parentSlug
+              ? teamsBySlug.get(current.parentSlug)
+              : undefined;
+          }
+
+          access.push(...teamAccess.values());
+        } catch (error: any) {
+          logger.warn(
+            `Error fetching repositories for team ${team.slug}: ${error.message}`,
+          );
+        }
+      }
+
+      // Long-form CSV
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      fs.writeFileSync(
+        csvFilename,
+        'Organization,Team Slug,Repository,Permission,Inherited From Parent\n',
+      );
+      for (const row of access) {
+        const csvRow = [
+          opts.orgName,
+          row.teamSlug,
+          row.repository,
+          row.permission,
+          row.inheritedFrom,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+      logger.info(`Team repository access written to ${csvFilename}`);
+
+      // Matrix CSV, one row per repository and one column per team
+      const teamSlugs = teams.map((team) => team.slug);
+      const matrix = new Map<string, Map<string, string>>();
+      for (const row of access) {
+        if (!matrix.has(row.repository)) {
+          matrix.set(row.repository, new Map());
+        }
+        matrix.get(row.repository)!.set(row.teamSlug, row.permission);
+      }
+
+      const matrixFilename = path.resolve(process.cwd(), options.matrixOutput);
+      fs.writeFileSync(
+        matrixFilename,
+        ['Repository', ...teamSlugs].join(',') + '\n',
+      );
+      for (const repository of Array.from(matrix.keys()).sort()) {
+        const permissions = matrix.get(repository)!;
+        const csvRow = [
+          repository,
+          ...teamSlugs.map((slug) => permissions.get(slug) || ''),
+        ];
+        fs.appendFileSync(matrixFilename, csvRow.join(',') + '\n');
+      }
+      logger.info(`Team repository matrix written to ${matrixFilename}`);
+
+      let userAccessCount = 0;
+      if (options.expandUsers) {
+        // Members of child teams inherit the team's permissions, and the child
+        // teams may not be among the selected teams, so use all members
+        const teamMap = new Map<string, TeamMember[]>();
+        const userAccess = new Map<string, UserRepoAccess>();
+
+        const getImmediateMembers = async (team: TeamDetails) =>
+          new Set(
+            (
+              await getTeamMembers(
+                octokit,
+                opts.orgName,
+                team.slug,
+                team.name,
+                teamMap,
+                logger,
+                'immediate',
+              )
+            ).map((member) => member.login),
+          );
+
+        for (const team of teams) {
+          try {
+            const members = await getTeamMembers(
+              octokit,
+              opts.orgName,
+              team.slug,
+              team.name,
+              teamMap,
+              logger,
+              'all',
+            );
+            const directMembers = await getImmediateMembers(team);
+            const grants = access.filter((row) => row.teamSlug === team.slug);
+
+            // Attribute inherited members to the nearest child team they belong to
+            const grantedVia = new Map<string, string>();
+            const inherited = members.filter(
+              (member) => !directMembers.has(member.login),
+            );
+            const childTeams =
+              inherited.length > 0 ? getDescendantTeams(team, orgTeams) : [];
+            for (const child of childTeams) {
+              const childMembers = await getImmediateMembers(child);
+              for (const member of inherited) {
+                if (
+                  !grantedVia.has(member.login) &&
+                  childMembers.has(member.login)
+                ) {
+                  grantedVia.set(
+                    member.login,
+                    `${team.slug} (inherited via ${child.slug})`,
+                  );
+                }
+              }
+            }
+
+            for (const member of members) {
+              const via = grantedVia.get(member.login) || team.slug;
+              for (const grant of grants) {
+                const key = `${member.login}|${grant.repository}`;
+                const existing = userAccess.get(key);
+                if (
+                  !existing ||
+                  permissionRank(grant) > permissionRank(existing)
+                ) {
+                  userAccess.set(key, {
+                    login: member.login,
+                    repository: grant.repository,
+                    permission: grant.permission,
+                    basePermission: grant.basePermission,
+                    grantedVia: [via],
+                  });
+                } else if (permissionRank(grant) === permissionRank(existing)) {
+                  existing.grantedVia.push(via);
+                }
+              }
+            }
+          } catch (error: any) {
+            logger.warn(
+              `Error fetching members for team ${team.slug}: ${error.message}`,
+            );
+          }
+        }
+
+        const userFilename = path.resolve(process.cwd(), options.userOutput);
+        fs.writeFileSync(
+          userFilename,
+          'Organization,Username,Repository,Permission,Granted Via\n',
+        );
+        const sorted = Array.from(userAccess.values()).sort(
+          (a, b) =>
+            a.login.localeCompare(b.login) ||
+            a.repository.localeCompare(b.repository),
+        );
+        for (const row of sorted) {
+          const csvRow = [
+            opts.orgName,
+            row.login,
+            row.repository,
+            row.permission,
+            `"${row.grantedVia.join(';')}"`,
+          ];
+          fs.appendFileSync(userFilename, csvRow.join(',') + '\n');
+        }
+        userAccessCount = sorted.length;
+        logger.info(`Effective user permissions written to ${userFilename}`);
+      }
+
+      logger.info('=== Team Repository Access Summary ===');
+      logger.info(`Teams processed: ${teams.length}`);
+      logger.info(`Repositories with team access: ${matrix.size}`);
+      logger.info(`Team grants: ${access.length}`);
+      logger.info(
+        `Inherited from parent teams: ${access.filter((row) => row.inheritedFrom).length}`,
+      );
+      if (options.expandUsers) {
+        logger.info(`User permissions: ${userAccessCount}`);
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default teamRepoAccessCommand;
@@ -4,10 +4,101 @@ import {
 } from '@scottluskcis/octokit-harness';
 
 import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { confirmAction, readRepositoryNames } from '../utils.js';
+
+interface UnlockTarget {
+  migrationId: number;
+  repoName: string;
+}
+
+type UnlockResult = 'unlocked' | 'dry-run' | 'unconfirmed' | 'failed';
+
+async function unlockRepository(
+  octokit: any,
+  orgName: string,
+  target: UnlockTarget,
+): Promise<{ result: UnlockResult; message: string }> {
+  try {
+    const response = await octokit.request(
+      'DELETE /orgs/{org}/migrations/{migration_id}/repos/{repo_name}/lock',
+      {
+        org: orgName,
+        migration_id: target.migrationId,
+        repo_name: target.repoName,
+      },
+    );
+
+    if (response.status === 204) {
+      return { result: 'unlocked', message: '' };
+    }
+    return {
+      result: 'failed',
+      message: `Unexpected status ${response.status}`,
+    };
+  } catch (error: any) {
+    // Also returned for a wrong repository name or missing permissions,
+    // so the unlock cannot be confirmed
+    if (error.status === 404) {
+      return {
+        result: 'unconfirmed',
+        message:
+          'Not found: the repository is not locked by this migration, does not exist, or cannot be accessed',
+      };
+    }
+    return { result: 'failed', message: error.message };
+  }
+}
+
+/**
+ * Get the names of the repositories included in a migration
+ */
+async function getMigrationRepositories(
+  octokit: any,
+  orgName: string,
+  migrationId: number,
+): Promise<string[]> {
+  const response = await octokit.rest.migrations.getStatusForOrg({
+    org: orgName,
+    migration_id: migrationId,
+  });
+  return (response.data.repositories || []).map((repo: any) => repo.name);
+}
+
+/**
+ * Get every repository locked by a migration in the organization
+ */
+async function getLockedRepositories(
+  octokit: any,
+  orgName: string,
+): Promise<UnlockTarget[]> {
+  const targets: UnlockTarget[] = [];
+
+  const migrationsIterator = octokit.paginate.iterator(
+    octokit.rest.migrations.listForOrg,
+    {
+      org: orgName,
+      per_page: 100,
+    },
+  );
+
+  for await (const { data: migrations } of migrationsIterator) {
+    for (const migration of migrations) {
+      if (!migration.lock_repositories) continue;
+      for (const repo of migration.repositories || []) {
+        targets.push({ migrationId: migration.id, repoName: repo.name });
+      }
+    }
+  }
+
+  return targets;
+}
 
 const unlockOrgRepositoryCommand = createBaseCommand({
   name: 'unlock-org-repository',
-  description: 'Unlock an organization repository',
+  description:
+    'Unlock organization repositories locked by a migration, one at a time or in bulk',
 })
   .addOption(
     new Option('--migration-id <migrationId>', 'The ID of the migration').env(
@@ -20,27 +111,216 @@ const unlockOrgRepositoryCommand = createBaseCommand({
       'The name of the repository to unlock',
     ).env('REPO_NAME'),
   )
+  .addOption(
+    new Option(
+      '--all-in-migration',
+      'Unlock every repository included in --migration-id',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--all-locked',
+      'Unlock every repository locked by any migration in the organization',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--csv-output <csvOutput>',
+      'Path to write the per-repository result CSV for bulk unlocks',
+    )
+      .env('CSV_OUTPUT')
+      .default('./unlock-results.csv'),
+  )
+  .addOption(
+    new Option(
+      '--yes',
+      'Unlock without asking for confirmation (required outside a terminal)',
+    ),
+  )
+  .addOption(
+    new Option('--dry-run [dryRun]', 'Only list the repositories to unlock')
+      .env('DRY_RUN')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
   .action(async (options) => {
     await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
       logger.info('Starting...');
 
-      const response = await octokit.request(
-        'DELETE /orgs/{org}/migrations/{migration_id}/repos/{repo_name}/lock',
-        {
-          org: opts.orgName,
-          migration_id: options.migrationId,
-          repo_name: options.repoName,
-        },
-      );
+      const migrationId = options.migrationId
+        ? parseInt(options.migrationId, 10)
+        : undefined;
+      if (options.migrationId && Number.isNaN(migrationId)) {
+        logger.error(`Invalid --migration-id: ${options.migrationId}`);
+        return;
+      }
+
+      // Single repository, kept as before for existing scripts
+      if (
+        migrationId !== undefined &&
+        options.repoName &&
+        !options.allInMigration &&
+        !options.allLocked &&
+        !options.repoList
+      ) {
+        const { result, message } = options.dryRun
+          ? { result: 'dry-run', message: '' }
+          : await unlockRepository(octokit, opts.orgName, {
+              migrationId,
+              repoName: options.repoName,
+            });
+
+        if (result === 'unlocked') {
+          logger.info(
+            `Successfully unlocked repository ${options.repoName} in migration ${migrationId}`,
+          );
+        } else if (result === 'dry-run') {
+          logger.info(
+            `Dry run, would unlock repository ${options.repoName} in migration ${migrationId}`,
+          );
+        } else {
+          logger.error(
+            `Failed to unlock repository ${options.repoName} in migration ${migrationId}: ${message}`,
+          );
+          process.exitCode = 1;
+        }
+
+        logger.info('Finished');
+        return;
+      }
+
+      let targets: UnlockTarget[];
 
-      if (response.status === 204) {
-        logger.info(
-          `Successfully unlocked repository ${options.repoName} in migration ${options.migrationId}`,
+      if (options.allLocked) {
+        if (migrationId !== undefined || options.repoName) {
+          logger.error(
+            '--all-locked cannot be combined with --migration-id or --repo-name',
+          );
+          return;
+        }
+        logger.info('Finding repositories locked by migrations...');
+        targets = await getLockedRepositories(octokit, opts.orgName);
+      } else if (options.allInMigration) {
+        if (migrationId === undefined) {
+          logger.error('--all-in-migration requires --migration-id');
+          return;
+        }
+        const repoNames = await getMigrationRepositories(
+          octokit,
+          opts.orgName,
+          migrationId,
         );
+        targets = repoNames.map((repoName) => ({ migrationId, repoName }));
+      } else if (options.repoList) {
+        const repoNames = readRepositoryNames(options.repoList, logger);
+        if (repoNames.length === 0) {
+          return;
+        }
+
+        if (migrationId !== undefined) {
+          targets = repoNames.map((repoName) => ({ migrationId, repoName }));
+        } else {
+          // Without a migration ID, unlock the listed repos in every migration that locked them
+          const wanted = new Set(repoNames.map((name) => name.toLowerCase()));
+          const locked = await getLockedRepositories(octokit, opts.orgName);
+          targets = locked.filter((target) =>
+            wanted.has(target.repoName.toLowerCase()),
+          );
+
+          const found = new Set(
+            targets.map((target) => target.repoName.toLowerCase()),
+          );
+          for (const repoName of repoNames) {
+            if (!found.has(repoName.toLowerCase())) {
+              logger.warn(
+                `Repository ${repoName} is not in any migration that locks repositories`,
+              );
+            }
+          }
+        }
       } else {
         logger.error(
-          `Failed to unlock repository ${options.repoName} in migration ${options.migrationId}`,
+          'Provide --migration-id with --repo-name or --all-in-migration, a repository list with --repo-list, or --all-locked',
         );
+        return;
+      }
+
+      if (targets.length === 0) {
+        logger.info('No repositories to unlock');
+        logger.info('Finished');
+        return;
+      }
+
+      logger.info(`Repositories to unlock: ${targets.length}`);
+      for (const target of targets) {
+        logger.info(`  ${target.repoName} (migration ${target.migrationId})`);
+      }
+
+      if (!options.dryRun && !options.yes) {
+        if (!process.stdin.isTTY) {
+          logger.error(
+            'Not running in an interactive terminal, pass --yes to unlock without confirmation',
+          );
+          process.exitCode = 1;
+          return;
+        }
+        if (!(await confirmAction(`Unlock ${targets.length} repositories?`))) {
+          logger.info('Aborted, no repositories were unlocked');
+          return;
+        }
+      }
+
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+      fs.writeFileSync(
+        csvFilename,
+        'Organization,Migration ID,Repository,Result,Message\n',
+      );
+
+      const results: UnlockResult[] = [];
+      for (const target of targets) {
+        const { result, message } = options.dryRun
+          ? { result: 'dry-run' as const, message: '' }
+          : await unlockRepository(octokit, opts.orgName, target);
+
+        if (result === 'failed' || result === 'unconfirmed') {
+          logger.error(
+            `Failed to unlock ${target.repoName} in migration ${target.migrationId}: ${message}`,
+          );
+        } else if (result === 'unlocked') {
+          logger.info(
+            `Unlocked ${target.repoName} in migration ${target.migrationId}`,
+          );
+        }
+
+        results.push(result);
+        const csvRow = [
+          opts.orgName,
+          target.migrationId,
+          target.repoName,
+          result,
+          `"${message.replace(/"/g, '""')}"`,
+        ];
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+
+      const countByResult = (result: UnlockResult) =>
+        results.filter((r) => r === result).length;
+
+      logger.info('=== Unlock Summary ===');
+      if (options.dryRun) {
+        logger.info(`Dry run, ${countByResult('dry-run')} repositories listed`);
+      } else {
+        logger.info(`Unlocked: ${countByResult('unlocked')}`);
+        logger.info(`Unconfirmed (not found): ${countByResult('unconfirmed')}`);
+        logger.info(`Failed: ${countByResult('failed')}`);
+      }
+      logger.info(`Results written to ${csvFilename}`);
+
+      if (countByResult('failed') > 0 || countByResult('unconfirmed') > 0) {
+        process.exitCode = 1;
       }
 
       logger.info('Finished');
@@ -0,0 +1,335 @@
+import {
+  createBaseCommand,
+  executeWithOctokit,
+} from '@scottluskcis/octokit-harness';
+import { Option } from 'commander';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseIntegerOption } from '../utils.js';
+import {
+  describeWebhook,
+  getWebhookDeliveries,
+  isSuccessfulDelivery,
+  listOrganizationWebhooks,
+  WebhookData,
+  WebhookDelivery,
+  WebhookListStats,
+} from '../utils/webhooks.js';
+
+interface WebhookDeliveryStats {
+  webhook: WebhookData;
+  deliveryCount: number;
+  successCount: number;
+  failureCount: number;
+  topFailureStatusCodes: string;
+  p50Duration: number | null;
+  p95Duration: number | null;
+  lastSuccessfulDelivery: string | null;
+  lastDelivery: string | null;
+}
+
+/**
+ * Nearest-rank percentile of a sorted list of values
+ */
+function percentile(sortedValues: number[], pct: number): number | null {
+  if (sortedValues.length === 0) {
+    return null;
+  }
+  const rank = Math.ceil((pct / 100) * sortedValues.length);
+  return sortedValues[Math.min(Math.max(rank, 1), sortedValues.length) - 1];
+}
+
+function summarizeDeliveries(
+  webhook: WebhookData,
+  deliveries: WebhookDelivery[],
+  topStatusCodes: number,
+): WebhookDeliveryStats {
+  const failures = deliveries.filter((d) => !isSuccessfulDelivery(d));
+
+  // Count failure status codes, most common first
+  const statusCodeCounts = new Map<number, number>();
+  for (const delivery of failures) {
+    statusCodeCounts.set(
+      delivery.statusCode,
+      (statusCodeCounts.get(delivery.statusCode) || 0) + 1,
+    );
+  }
+  const topFailureStatusCodes = Array.from(statusCodeCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topStatusCodes)
+    .map(([code, count]) => `${code}:${count}`)
+    .join(';');
+
+  const durations = deliveries.map((d) => d.duration).sort((a, b) => a - b);
+
+  // Deliveries are ordered newest first
+  const lastSuccessful = deliveries.find((d) => isSuccessfulDelivery(d));
+
+  return {
+    webhook,
+    deliveryCount: deliveries.length,
+    successCount: deliveries.length - failures.length,
+    failureCount: failures.length,
+    topFailureStatusCodes,
+    p50Duration: percentile(durations, 50),
+    p95Duration: percentile(durations, 95),
+    lastSuccessfulDelivery: lastSuccessful?.deliveredAt || null,
+    lastDelivery: deliveries[0]?.deliveredAt || null,
+  };
+}
+
+const webhookDeliveryReportCommand = createBaseCommand({
+  name: 'webhook-delivery-report',
+  description:
+    'Report recent delivery success and failure rates for organization and repository webhooks',
+})
+  .addOption(
+    new Option('--csv-output <csvOutput>', 'Path to write CSV output file')
+      .env('CSV_OUTPUT')
+      .default('./webhook-delivery-report.csv'),
+  )
+  .addOption(
+    new Option(
+      '--scope <scope>',
+      'Which webhooks to include: organization hooks, repository hooks, or both',
+    )
+      .choices(['org', 'repo', 'all'])
+      .env('WEBHOOK_SCOPE')
+      .default('all'),
+  )
+  .addOption(
+    new Option(
+      '--since-days <sinceDays>',
+      'Only include deliveries from the last N days',
+    )
+      .env('DELIVERY_SINCE_DAYS')
+      .default('7'),
+  )
+  .addOption(
+    new Option(
+      '--max-deliveries <maxDeliveries>',
+      'Maximum number of deliveries to inspect per webhook',
+    )
+      .env('MAX_DELIVERIES')
+      .default('1000'),
+  )
+  .addOption(
+    new Option(
+      '--top-status-codes <topStatusCodes>',
+      'Number of most common failure status codes to report per webhook',
+    ).default('3'),
+  )
+  .addOption(
+    new Option(
+      '--only-active-repos [onlyActiveRepos]',
+      'Only include active repositories in the check',
+    )
+      .env('ONLY_ACTIVE_REPOS')
+      .default(true)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    await executeWithOctokit(options, async ({ octokit, logger, opts }) => {
+      logger.info('Starting webhook delivery report...');
+
+      const sinceDays = parseIntegerOption(options.sinceDays);
+      const maxDeliveries = parseIntegerOption(options.maxDeliveries);
+      const topStatusCodes = parseIntegerOption(options.topStatusCodes);
+      if (
+        sinceDays === null ||
+        maxDeliveries === null ||
+        topStatusCodes === null
+      ) {
+        logger.error(
+          '--since-days, --max-deliveries and --top-status-codes must be positive integers',
+        );
+        process.exitCode = 1;
+        return;
+      }
+      const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+
+      logger.info(
+        `Inspecting up to ${maxDeliveries} deliveries per webhook since ${since.toISOString()}`,
+      );
+
+      const results: WebhookDeliveryStats[] = [];
+      const deliveryFailures: { webhook: WebhookData; message: string }[] = [];
+      const stats: WebhookListStats = { processedRepos: 0, failures: [] };
+
+      for await (const webhook of listOrganizationWebhooks(
+        octokit,
+        opts.orgName,
+        {
+          scope: options.scope,
+          onlyActiveRepos: options.onlyActiveRepos,
+          // Inactive hooks are exactly the ones worth reporting on
+          onlyActiveWebhooks: false,
+        },
+        logger,
+        stats,
+      )) {
+        const hookLabel = describeWebhook(webhook);
+
+        try {
+          const deliveries = await getWebhookDeliveries(
+            octokit,
+            webhook,
+            since,
+            maxDeliveries,
+          );
+
+          const deliveryStats = summarizeDeliveries(
+            webhook,
+            deliveries,
+            topStatusCodes,
+          );
+          results.push(deliveryStats);
+
+          logger.info(
+            `${hookLabel}: ${deliveryStats.deliveryCount} deliveries, ${deliveryStats.failureCount} failures`,
+          );
+        } catch (error: any) {
+          logger.error(
+            `Error fetching deliveries for ${hookLabel}: ${error.message}`,
+          );
+          deliveryFailures.push({ webhook, message: error.message });
+        }
+      }
+
+      if (
+        results.length === 0 &&
+        deliveryFailures.length === 0 &&
+        stats.failures.length === 0
+      ) {
+        logger.info('No webhooks found in the organization');
+        logger.info('Finished');
+        return;
+      }
+
+      const csvFilename = path.resolve(process.cwd(), options.csvOutput);
+
+      const csvHeaders = [
+        'Type',
+        'Organization',
+        'Repository',
+        'Webhook ID',
+        'URL',
+        'Active',
+        'Deliveries',
+        'Successes',
+        'Failures',
+        'Failure Rate',
+        'Top Failure Status Codes',
+        'P50 Duration (s)',
+        'P95 Duration (s)',
+        'Last Successful Delivery',
+        'Last Delivery',
+        'Error',
+      ];
+
+      fs.writeFileSync(csvFilename, csvHeaders.join(',') + '\n');
+
+      for (const stats of results) {
+        const failureRate =
+          stats.deliveryCount > 0
+            ? (stats.failureCount / stats.deliveryCount).toFixed(4)
+            : '';
+
+        const csvRow = [
+          stats.webhook.type,
+          stats.webhook.organizationName,
+          stats.webhook.repositoryName || '',
+          stats.webhook.id,
+          `"${stats.webhook.url}"`, // Quote URL in case it contains commas
+          stats.webhook.active,
+          stats.deliveryCount,
+          stats.successCount,
+          stats.failureCount,
+          failureRate,
+          `"${stats.topFailureStatusCodes}"`,
+          stats.p50Duration ?? '',
+          stats.p95Duration ?? '',
+          stats.lastSuccessfulDelivery || '',
+          stats.lastDelivery || '',
+          '',
+        ];
+
+        fs.appendFileSync(csvFilename, csvRow.join(',') + '\n');
+      }
+
+      // Hooks without delivery stats get a row with the error instead
+      const errorRow = (
+        type: string,
+        repositoryName: string,
+        webhook: Pick<WebhookData, 'id' | 'url' | 'active'> | null,
+        message: string,
+      ) =>
+        [
+          type,
+          opts.orgName,
+          repositoryName,
+          webhook?.id ?? '',
+          webhook ? `"${webhook.url}"` : '',
+          webhook?.active ?? '',
+          ...Array(9).fill(''),
+          `"${message.replace(/"/g, '""')}"`,
+        ].join(',') + '\n';
+
+      for (const failure of deliveryFailures) {
+        fs.appendFileSync(
+          csvFilename,
+          errorRow(
+            failure.webhook.type,
+            failure.webhook.repositoryName || '',
+            failure.webhook,
+            `Deliveries could not be fetched: ${failure.message}`,
+          ),
+        );
+      }
+      for (const failure of stats.failures) {
+        fs.appendFileSync(
+          csvFilename,
+          errorRow(
+            failure.type,
+            failure.repositoryName || '',
+            null,
+            `Webhooks could not be listed: ${failure.message}`,
+          ),
+        );
+      }
+
+      logger.info(
+        `Exported delivery stats for ${results.length} webhooks to ${csvFilename}`,
+      );
+
+      // Summary statistics
+      const failingHooks = results.filter((r) => r.failureCount > 0);
+      const silentHooks = results.filter((r) => r.deliveryCount === 0);
+
+      logger.info('=== Webhook Delivery Summary ===');
+      logger.info(`Webhooks inspected: ${results.length}`);
+      logger.info(`Webhooks with failed deliveries: ${failingHooks.length}`);
+      logger.info(
+        `Webhooks with no deliveries in window: ${silentHooks.length}`,
+      );
+
+      if (deliveryFailures.length > 0 || stats.failures.length > 0) {
+        logger.error(
+          `Report is incomplete: deliveries could not be fetched for ${deliveryFailures.length} webhook(s) and webhooks could not be listed for ${stats.failures.length} target(s)`,
+        );
+        for (const failure of stats.failures) {
+          logger.error(
+            `  ${failure.repositoryName || `organization ${opts.orgName}`}: ${failure.message}`,
+          );
+        }
+        process.exitCode = 1;
+      }
+
+      logger.info('Finished');
+    });
+  });
+
+export default webhookDeliveryReportCommand;
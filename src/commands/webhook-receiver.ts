@@ -0,0 +1,411 @@
+import { Command, Option } from 'commander';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { parseIntegerOption } from '../utils.js';
+import { verifyWebhookSignature } from '../utils/webhooks.js';
+
+interface ReceiverLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+type SignatureStatus = 'valid' | 'invalid' | 'missing' | 'unchecked';
+
+// The payload fields recorded in the delivery log
+interface DeliveryPayload {
+  action?: string;
+  repository?: { full_name?: string };
+}
+
+interface ReceivedDelivery {
+  headers: Record<string, string>;
+  // Raw body exactly as delivered, the signature is computed over these bytes
+  body: Buffer;
+}
+
+interface DeliveryLogRecord {
+  receivedAt: string;
+  deliveryId: string | null;
+  event: string | null;
+  hookId: string | null;
+  action: string | null;
+  repository: string | null;
+  signature: SignatureStatus;
+  payloadBytes: number;
+  forwardStatus?: number | string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+interface ReceiverConfig {
+  secret?: string;
+  logFile: string;
+  forwardUrl?: string;
+  forwardTimeoutMs: number;
+  includePayload: boolean;
+}
+
+// Headers kept in the log and passed along when forwarding
+const FORWARDED_HEADERS = [
+  'content-type',
+  'user-agent',
+  'x-github-event',
+  'x-github-delivery',
+  'x-github-hook-id',
+  'x-github-hook-installation-target-id',
+  'x-github-hook-installation-target-type',
+  'x-hub-signature',
+  'x-hub-signature-256',
+];
+
+function pickHeaders(
+  headers: Record<string, string | string[] | undefined>,
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of FORWARDED_HEADERS) {
+    const value = headers[name];
+    if (value !== undefined) {
+      picked[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Extract the JSON payload from a JSON or form encoded delivery body
+ */
+function parsePayload(delivery: ReceivedDelivery): DeliveryPayload | null {
+  try {
+    if (
+      delivery.headers['content-type']?.startsWith(
+        'application/x-www-form-urlencoded',
+      )
+    ) {
+      const payload = new URLSearchParams(delivery.body.toString('utf-8')).get(
+        'payload',
+      );
+      return payload ? JSON.parse(payload) : null;
+    }
+    return JSON.parse(delivery.body.toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+async function forwardDelivery(
+  forwardUrl: string,
+  delivery: ReceivedDelivery,
+  timeoutMs: number,
+): Promise<number> {
+  const protocol = forwardUrl.startsWith('https:') ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = protocol.request(
+      forwardUrl,
+      {
+        method: 'POST',
+        headers: {
+          ...delivery.headers,
+          'content-length': delivery.body.length,
+        },
+      },
+      (response) => {
+        response.resume();
+        response.on('end', () => resolve(response.statusCode || 0));
+      },
+    );
+    // A stalled downstream would otherwise hold the delivery forever
+    request.setTimeout(timeoutMs, () =>
+      request.destroy(new Error(`timed out after ${timeoutMs}ms`)),
+    );
+    request.on('error', reject);
+    request.end(delivery.body);
+  });
+}
+
+/**
+ * Validate, log and optionally forward a single delivery
+ */
+async function handleDelivery(
+  delivery: ReceivedDelivery,
+  config: ReceiverConfig,
+  logger: ReceiverLogger,
+): Promise<DeliveryLogRecord> {
+  let signature: SignatureStatus = 'unchecked';
+  if (config.secret) {
+    const header = delivery.headers['x-hub-signature-256'];
+    if (!header) {
+      signature = 'missing';
+    } else {
+      signature = verifyWebhookSignature(config.secret, delivery.body, header)
+        ? 'valid'
+        : 'invalid';
+    }
+  }
+
+  const payload = parsePayload(delivery);
+
+  const record: DeliveryLogRecord = {
+    receivedAt: new Date().toISOString(),
+    deliveryId: delivery.headers['x-github-delivery'] || null,
+    event: delivery.headers['x-github-event'] || null,
+    hookId: delivery.headers['x-github-hook-id'] || null,
+    action: payload?.action || null,
+    repository: payload?.repository?.full_name || null,
+    signature,
+    payloadBytes: delivery.body.length,
+    headers: delivery.headers,
+  };
+
+  // Only pass along deliveries that are verified (or not checked at all)
+  if (
+    config.forwardUrl &&
+    (signature === 'valid' || signature === 'unchecked')
+  ) {
+    try {
+      record.forwardStatus = await forwardDelivery(
+        config.forwardUrl,
+        delivery,
+        config.forwardTimeoutMs,
+      );
+    } catch (error: any) {
+      record.forwardStatus = `error: ${error.message}`;
+    }
+  }
+
+  if (config.includePayload) {
+    record.body = delivery.body.toString('utf-8');
+  }
+
+  fs.appendFileSync(config.logFile, JSON.stringify(record) + '\n');
+
+  logger.info(
+    `[${record.receivedAt}] ${record.event || 'unknown'}${record.action ? `.${record.action}` : ''} delivery ${record.deliveryId || 'n/a'} - signature ${signature}${record.forwardStatus !== undefined ? ` - forwarded ${record.forwardStatus}` : ''}`,
+  );
+
+  return record;
+}
+
+/**
+ * Replay deliveries from an NDJSON file of { headers, body } records,
+ * such as a log previously written with --include-payload
+ */
+async function replayDeliveries(
+  replayFile: string,
+  config: ReceiverConfig,
+  logger: ReceiverLogger,
+): Promise<DeliveryLogRecord[]> {
+  const lines = fs
+    .readFileSync(replayFile, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+
+  const records: DeliveryLogRecord[] = [];
+  for (const [index, line] of lines.entries()) {
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      logger.error(`Skipping line ${index + 1}: not valid JSON`);
+      continue;
+    }
+
+    if (!entry.headers || entry.body === undefined) {
+      logger.error(`Skipping line ${index + 1}: missing headers or body`);
+      continue;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(entry.headers)) {
+      headers[name.toLowerCase()] = String(value);
+    }
+
+    records.push(
+      await handleDelivery(
+        {
+          headers,
+          body: Buffer.from(
+            typeof entry.body === 'string'
+              ? entry.body
+              : JSON.stringify(entry.body),
+            'utf-8',
+          ),
+        },
+        config,
+        logger,
+      ),
+    );
+  }
+
+  return records;
+}
+
+const webhookReceiverCommand = new Command('webhook-receiver')
+  .description(
+    'Start a local webhook receiver that verifies signatures and logs deliveries as NDJSON',
+  )
+  .addOption(
+    new Option('--port <port>', 'Port to listen on')
+      .env('RECEIVER_PORT')
+      .default('3000'),
+  )
+  .addOption(
+    new Option('--host <host>', 'Host interface to bind to')
+      .env('RECEIVER_HOST')
+      .default('127.0.0.1'),
+  )
+  .addOption(
+    new Option(
+      '--secret <secret>',
+      'Webhook secret used to validate X-Hub-Signature-256',
+    ).env('WEBHOOK_SECRET'),
+  )
+  .addOption(
+    new Option('--log-file <logFile>', 'Path to the NDJSON delivery log')
+      .env('RECEIVER_LOG_FILE')
+      .default('./webhook-deliveries.ndjson'),
+  )
+  .addOption(
+    new Option(
+      '--forward-url <forwardUrl>',
+      'Forward verified deliveries to this URL (e.g. a local service)',
+    ).env('RECEIVER_FORWARD_URL'),
+  )
+  .addOption(
+    new Option(
+      '--forward-timeout <forwardTimeout>',
+      'Milliseconds to wait for the forward URL to respond',
+    )
+      .env('RECEIVER_FORWARD_TIMEOUT_MS')
+      .default('10000'),
+  )
+  .addOption(
+    new Option(
+      '--replay-file <replayFile>',
+      'Process deliveries from an NDJSON file instead of starting a server',
+    ),
+  )
+  .addOption(
+    new Option(
+      '--include-payload [includePayload]',
+      'Include the raw payload in the log so it can be replayed later (payloads may contain sensitive data)',
+    )
+      .env('RECEIVER_INCLUDE_PAYLOAD')
+      .default(false)
+      .argParser((value) => {
+        if (typeof value === 'boolean') return value;
+        return value === 'true';
+      }),
+  )
+  .action(async (options) => {
+    // Runs offline without a token, so it skips the harness Octokit setup and
+    // logs to the console
+    const logger: ReceiverLogger = console;
+    logger.info('Starting...');
+
+    const port = parseIntegerOption(options.port);
+    const forwardTimeoutMs = parseIntegerOption(options.forwardTimeout);
+    if (port === null || forwardTimeoutMs === null) {
+      logger.error('--port and --forward-timeout must be positive integers');
+      process.exitCode = 1;
+      return;
+    }
+
+    const config: ReceiverConfig = {
+      secret: options.secret,
+      logFile: path.resolve(process.cwd(), options.logFile),
+      forwardUrl: options.forwardUrl,
+      forwardTimeoutMs,
+      includePayload: options.includePayload,
+    };
+
+    if (!config.secret) {
+      logger.warn('No --secret provided, signatures will not be validated');
+    }
+
+    if (options.replayFile) {
+      logger.info(`Replaying deliveries from ${options.replayFile}...`);
+      const records = await replayDeliveries(
+        options.replayFile,
+        config,
+        logger,
+      );
+      const rejected = records.filter(
+        (r) => r.signature === 'invalid' || r.signature === 'missing',
+      );
+
+      logger.info(
+        `Replayed ${records.length} deliveries, ${rejected.length} failed signature validation. Log written to ${config.logFile}`,
+      );
+      if (rejected.length > 0) {
+        process.exitCode = 1;
+      }
+      logger.info('Finished');
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      if (req.method !== 'POST') {
+        res.writeHead(405).end();
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', async () => {
+        try {
+          const record = await handleDelivery(
+            {
+              headers: pickHeaders(req.headers),
+              body: Buffer.concat(chunks),
+            },
+            config,
+            logger,
+          );
+
+          if (
+            record.signature === 'invalid' ||
+            record.signature === 'missing'
+          ) {
+            res.writeHead(401).end('Signature validation failed');
+          } else {
+            res.writeHead(200).end('OK');
+          }
+        } catch (error: any) {
+          logger.error(`Error handling delivery: ${error.message}`);
+          res.writeHead(500).end();
+        }
+      });
+    });
+
+    // Keep the command running until the server stops
+    await new Promise<void>((resolve) => {
+      server.on('error', (error: NodeJS.ErrnoException) => {
+        logger.error(
+          `Webhook receiver could not listen on ${options.host}:${options.port}: ${error.message}`,
+        );
+        process.exitCode = 1;
+        resolve();
+      });
+      server.on('close', () => resolve());
+
+      server.listen(port, options.host, () => {
+        logger.info(
+          `Webhook receiver listening on http://${options.host}:${port}, logging to ${config.logFile}`,
+        );
+      });
+
+      process.once('SIGINT', () => {
+        logger.info('Shutting down webhook receiver...');
+        server.close();
+        server.closeAllConnections();
+      });
+    });
+
+    logger.info('Finished');
+  });
+
+export default webhookReceiverCommand;
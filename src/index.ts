@@ -9,6 +9,21 @@ import listWebhooksCommand from './commands/list-webhooks.js';
 import listTeamMembersCommand from './commands/list-team-members.js';
 import codespacesUsageCommand from './commands/codespaces-usage.js';
 import getMigrationExportStatusCommand from './commands/migration-export-status.js';
+import webhookDeliveryReportCommand from './commands/webhook-delivery-report.js';
+import redeliverWebhookDeliveriesCommand from './commands/redeliver-webhook-deliveries.js';
+import rewriteWebhooksCommand from './commands/rewrite-webhooks.js';
+import exportWebhooksCommand from './commands/export-webhooks.js';
+import importWebhooksCommand from './commands/import-webhooks.js';
+import auditWebhooksCommand from './commands/audit-webhooks.js';
+import webhookReceiverCommand from './commands/webhook-receiver.js';
+import probeWebhookHostsCommand from './commands/probe-webhook-hosts.js';
+import syncTeamMembersCommand from './commands/sync-team-members.js';
+import teamRepoAccessCommand from './commands/team-repo-access.js';
+import orgMembershipReportCommand from './commands/org-membership-report.js';
+import compareTeamsCommand from './commands/compare-teams.js';
+import startOrgMigrationCommand from './commands/start-org-migration.js';
+import inspectMigrationArchiveCommand from './commands/inspect-migration-archive.js';
+import deleteMigrationArchivesCommand from './commands/delete-migration-archives.js';
 
 const program = createProgram({
   name: 'octokit-sandbox',
@@ -23,6 +38,21 @@ const program = createProgram({
     listTeamMembersCommand,
     codespacesUsageCommand,
     getMigrationExportStatusCommand,
+    webhookDeliveryReportCommand,
+    redeliverWebhookDeliveriesCommand,
+    rewriteWebhooksCommand,
+    exportWebhooksCommand,
+    importWebhooksCommand,
+    auditWebhooksCommand,
+    webhookReceiverCommand,
+    probeWebhookHostsCommand,
+    syncTeamMembersCommand,
+    teamRepoAccessCommand,
+    orgMembershipReportCommand,
+    compareTeamsCommand,
+    startOrgMigrationCommand,
+    inspectMigrationArchiveCommand,
+    deleteMigrationArchivesCommand,
   ],
 });
 
@@ -1,4 +1,5 @@
 import { readFileSync } from 'fs';
+import { createInterface } from 'readline/promises';
 import { parse } from 'csv-parse/sync';
 
 /**
@@ -40,3 +41,77 @@ export function readRepositoryNames(
 
   return repoNames;
 }
+
+/**
+ * Waits for the given number of milliseconds
+ * @param ms Milliseconds to wait
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parses a whole number given as a CLI option or environment variable
+ * @param value Option value, usually a string
+ * @param min Smallest accepted value (defaults to 1)
+ * @returns The number, or null when the value is not an integer of at least min
+ */
+export function parseIntegerOption(value: unknown, min = 1): number | null {
+  if (!/^-?\d+$/.test(String(value).trim())) {
+    return null;
+  }
+  const parsed = parseInt(String(value), 10);
+  return parsed >= min ? parsed : null;
+}
+
+/**
+ * Runs an async function over items with a limited number running at once
+ * @param items Items to process
+ * @param concurrency Maximum number of items processed at the same time
+ * @param fn Async function to run for each item
+ * @returns Results in the same order as the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    () => worker(),
+  );
+  await Promise.all(workers);
+
+  return results;
+}
+
+/**
+ * Asks the user to confirm an action on the terminal
+ * Never waits for input when stdin is not a terminal (e.g. in CI)
+ * @param question Question to show, answered with y/yes to confirm
+ * @returns Whether the user confirmed, always false without a terminal
+ */
+export async function confirmAction(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return ['y', 'yes'].includes(answer.trim().toLowerCase());
+  } finally {
+    rl.close();
+  }
+}
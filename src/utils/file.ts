@@ -1,101 +1,588 @@
+import { createHash, Hash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as https from 'https';
-import * as http from 'http';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import * as tar from 'tar';
+import { Agent, Dispatcher, fetch, Headers, ProxyAgent } from 'undici';
+import { sleep } from '../utils.js';
+
+export interface RetrySettings {
+  maxAttempts: number;
+  initialDelay: number;
+  maxDelay: number;
+  backoffFactor: number;
+}
+
+export interface DownloadOptions {
+  // Abort when no data is received for this long (defaults to 60s)
+  timeoutMs?: number;
+  // Proxy for the download
+  proxyUrl?: string;
+  // Backoff between failed attempts (defaults to 3 attempts starting at 1s)
+  retry?: Partial<RetrySettings>;
+  // Continue a partial download with an HTTP Range request when retrying
+  resume?: boolean;
+  // Fail (and retry) when the downloaded file has a different SHA-256
+  expectedSha256?: string;
+  // Write a <file>.sha256 sidecar next to the download (defaults to true)
+  writeChecksumFile?: boolean;
+  logger?: any;
+}
+
+export interface DownloadResult {
+  bytes: number;
+  sha256: string;
+  checksumFile: string | null;
+}
+
+export interface ArchiveIntegrity {
+  valid: boolean;
+  entries: number;
+  error?: string;
+}
+
+class DownloadError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+// Harness options read by getDownloadOptions, given as numbers or CLI strings
+export interface HarnessDownloadSettings {
+  proxyUrl?: string;
+  retryMaxAttempts?: string | number;
+  retryInitialDelay?: string | number;
+  retryMaxDelay?: string | number;
+  retryBackoffFactor?: string | number;
+}
+
+const DEFAULT_DOWNLOAD_TIMEOUT_MS = 60000;
+
+const DEFAULT_RETRY_SETTINGS: RetrySettings = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  backoffFactor: 2,
+};
 
 /**
- * Downloads a file from a URL to a local path
+ * Build download options from the harness options, so --proxy-url and the
+ * --retry-* settings used by the Octokit client also apply to downloads
+ * @param opts Options passed to the executeWithOctokit callback
+ * @param timeoutMs Download timeout from the command's --download-timeout option
  */
-export async function downloadFile(
+export function getDownloadOptions(
+  opts: HarnessDownloadSettings,
+  timeoutMs?: string | number,
+): DownloadOptions {
+  const toNumber = (value: unknown) => {
+    const parsed = parseInt(String(value ?? ''), 10);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  return {
+    timeoutMs: toNumber(timeoutMs),
+    proxyUrl: opts.proxyUrl || undefined,
+    retry: {
+      maxAttempts: toNumber(opts.retryMaxAttempts),
+      initialDelay: toNumber(opts.retryInitialDelay),
+      maxDelay: toNumber(opts.retryMaxDelay),
+      backoffFactor: toNumber(opts.retryBackoffFactor),
+    },
+  };
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Logs download progress every 10% (or every 100 MB when the size is unknown)
+ */
+function createProgressReporter(logger?: any) {
+  let lastReported = -1;
+
+  return (bytesDownloaded: number, totalBytes: number | null) => {
+    if (!logger) return;
+
+    const step = totalBytes
+      ? Math.floor((bytesDownloaded / totalBytes) * 10)
+      : Math.floor(bytesDownloaded / (100 * 1024 * 1024));
+    if (step <= lastReported) return;
+    lastReported = step;
+
+    const megabytes = (bytesDownloaded / (1024 * 1024)).toFixed(1);
+    if (totalBytes) {
+      const totalMegabytes = (totalBytes / (1024 * 1024)).toFixed(1);
+      logger.info(
+        `Downloaded ${megabytes} MB of ${totalMegabytes} MB (${step * 10}%)`,
+      );
+    } else {
+      logger.info(`Downloaded ${megabytes} MB`);
+    }
+  };
+}
+
+async function hashFileInto(filePath: string, hash: Hash): Promise<void> {
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+}
+
+/**
+ * Compute the SHA-256 of a file
+ * @param filePath Path to the file
+ * @returns Hex encoded digest
+ */
+export async function computeFileSha256(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await hashFileInto(filePath, hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Get the validator sent in If-Range when resuming: a strong ETag, or
+ * Last-Modified when the server does not send one
+ */
+function getResumeValidator(headers: Headers): string | null {
+  const etag = headers.get('etag');
+  if (etag && !etag.startsWith('W/')) {
+    return etag;
+  }
+  return headers.get('last-modified');
+}
+
+/**
+ * Make a single download attempt, appending to a partial file when the
+ * server honours the Range request. The request carries If-Range, so a
+ * file that changed since the first response is sent again in full
+ * rather than spliced onto the partial data.
+ */
+async function downloadAttempt(
   url: string,
   outputPath: string,
-): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const protocol = url.startsWith('https:') ? https : http;
-    const file = fs.createWriteStream(outputPath);
-
-    protocol
-      .get(url, (response) => {
-        if (response.statusCode === 200) {
-          response.pipe(file);
-          file.on('finish', () => {
-            file.close();
-            resolve();
-          });
-        } else {
-          reject(
-            new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`),
-          );
-        }
-      })
-      .on('error', (err) => {
-        fs.unlink(outputPath, () => {}); // Delete the file on error
-        reject(err);
-      });
+  dispatcher: Dispatcher,
+  resumeState: { validator: string | null } | null,
+  reportProgress: (bytesDownloaded: number, totalBytes: number | null) => void,
+): Promise<{ bytes: number; sha256: string }> {
+  // Without a validator there is no way to tell whether the partial data is still current
+  const existingBytes =
+    resumeState?.validator && fs.existsSync(outputPath)
+      ? fs.statSync(outputPath).size
+      : 0;
+  const hash = createHash('sha256');
+
+  let response;
+  try {
+    response = await fetch(url, {
+      dispatcher,
+      redirect: 'follow',
+      headers:
+        existingBytes > 0
+          ? {
+              range: `bytes=${existingBytes}-`,
+              'if-range': resumeState!.validator!,
+            }
+          : {},
+    });
+  } catch (error: any) {
+    throw new DownloadError(error.cause?.message || error.message, true);
+  }
+
+  // The partial file already holds the complete content
+  if (response.status === 416 && existingBytes > 0) {
+    const total = response.headers.get('content-range')?.split('/')[1];
+    if (total && parseInt(total, 10) === existingBytes) {
+      await hashFileInto(outputPath, hash);
+      return { bytes: existingBytes, sha256: hash.digest('hex') };
+    }
+    fs.unlinkSync(outputPath);
+    throw new DownloadError('Partial download could not be resumed', true);
+  }
+
+  if (response.status !== 200 && response.status !== 206) {
+    throw new DownloadError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      isRetryableStatus(response.status),
+    );
+  }
+  if (!response.body) {
+    throw new DownloadError('Response has no body', true);
+  }
+
+  // A 200 response to a Range request means the server sent the whole file again
+  const append = response.status === 206;
+  if (!append && resumeState) {
+    resumeState.validator = getResumeValidator(response.headers);
+  }
+  let bytesDownloaded = append ? existingBytes : 0;
+  const contentLength = response.headers.get('content-length');
+  // Content-Length describes the encoded body when a content encoding is used
+  const totalBytes =
+    contentLength && !response.headers.get('content-encoding')
+      ? parseInt(contentLength, 10) + bytesDownloaded
+      : null;
+
+  // The digest covers the whole file, including the part already on disk
+  if (append) {
+    await hashFileInto(outputPath, hash);
+  }
+
+  const progress = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytesDownloaded += chunk.length;
+      hash.update(chunk);
+      reportProgress(bytesDownloaded, totalBytes);
+      callback(null, chunk);
+    },
   });
+
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body),
+      progress,
+      fs.createWriteStream(outputPath, { flags: append ? 'a' : 'w' }),
+    );
+  } catch (error: any) {
+    throw new DownloadError(error.message, true);
+  }
+
+  if (totalBytes !== null && bytesDownloaded !== totalBytes) {
+    throw new DownloadError(
+      `Download truncated: received ${bytesDownloaded} of ${totalBytes} bytes`,
+      true,
+    );
+  }
+
+  return { bytes: bytesDownloaded, sha256: hash.digest('hex') };
 }
 
 /**
- * Extracts a tar.gz archive to a directory and finds a specific file
+ * Downloads a file from a URL to a local path.
+ * Redirects are followed and the proxy is honoured. Failed attempts are
+ * retried with exponential backoff using the retry settings, resuming
+ * the partial file where possible. The partial file is removed if the
+ * download ultimately fails.
+ * The SHA-256 is computed while streaming, the size is checked against
+ * Content-Length and a <file>.sha256 sidecar is written.
  */
-export async function extractArchiveAndFindFile(
-  archivePath: string,
-  extractDir: string,
-  targetFileName: string,
-  logger?: any,
-): Promise<string | null> {
-  try {
-    // Create extraction directory
-    if (!fs.existsSync(extractDir)) {
-      fs.mkdirSync(extractDir, { recursive: true });
+export async function downloadFile(
+  url: string,
+  outputPath: string,
+  options: DownloadOptions = {},
+): Promise<DownloadResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_DOWNLOAD_TIMEOUT_MS;
+  const proxyUrl = options.proxyUrl;
+  const resumeState = (options.resume ?? true) ? { validator: null } : null;
+  const writeChecksumFile = options.writeChecksumFile ?? true;
+  const retry: RetrySettings = { ...DEFAULT_RETRY_SETTINGS };
+  for (const [key, value] of Object.entries(options.retry ?? {})) {
+    if (value !== undefined) {
+      retry[key as keyof RetrySettings] = value;
     }
+  }
 
-    // Extract the tar.gz archive
-    await tar.extract({
-      file: archivePath,
-      cwd: extractDir,
-    });
+  const agentOptions = { headersTimeout: timeoutMs, bodyTimeout: timeoutMs };
+  const dispatcher = proxyUrl
+    ? new ProxyAgent({ uri: proxyUrl, ...agentOptions })
+    : new Agent(agentOptions);
+  const reportProgress = createProgressReporter(options.logger);
 
-    // Look for the target file recursively
-    const filePath = await findFileRecursively(extractDir, targetFileName);
+  // Start from an empty file, only data written by this call is resumed
+  if (fs.existsSync(outputPath)) {
+    fs.unlinkSync(outputPath);
+  }
 
-    if (filePath) {
-      const fileContent = fs.readFileSync(filePath, 'utf8');
-      return fileContent;
-    }
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { bytes, sha256 } = await downloadAttempt(
+          url,
+          outputPath,
+          dispatcher,
+          resumeState,
+          reportProgress,
+        );
 
-    return null;
-  } catch (error) {
-    if (logger) {
-      logger.error(`Error extracting archive: ${error}`);
+        if (
+          options.expectedSha256 &&
+          options.expectedSha256.toLowerCase() !== sha256
+        ) {
+          // Start over rather than resuming from corrupt data
+          fs.rmSync(outputPath, { force: true });
+          throw new DownloadError(
+            `SHA-256 mismatch: expected ${options.expectedSha256}, got ${sha256}`,
+            true,
+          );
+        }
+
+        let checksumFile: string | null = null;
+        if (writeChecksumFile) {
+          checksumFile = `${outputPath}.sha256`;
+          fs.writeFileSync(
+            checksumFile,
+            `${sha256}  ${path.basename(outputPath)}\n`,
+          );
+        }
+
+        return { bytes, sha256, checksumFile };
+      } catch (error: any) {
+        const retryable = error instanceof DownloadError && error.retryable;
+        if (!retryable || attempt >= retry.maxAttempts) {
+          fs.rmSync(outputPath, { force: true });
+          throw error;
+        }
+
+        const delay = Math.min(
+          retry.initialDelay * Math.pow(retry.backoffFactor, attempt - 1),
+          retry.maxDelay,
+        );
+        options.logger?.warn(
+          `Download attempt ${attempt} of ${retry.maxAttempts} failed (${error.message}), retrying in ${delay}ms...`,
+        );
+        await sleep(delay);
+      }
     }
-    return null;
+  } finally {
+    await dispatcher.close();
+  }
+}
+
+export interface ArchiveEntry {
+  path: string;
+  content: Buffer;
+}
+
+export interface ArchiveEntryInfo {
+  path: string;
+  type: string;
+  size: number;
+}
+
+export interface ReadArchiveOptions {
+  // Largest matched entry that will be read into memory (defaults to 10 MB)
+  maxEntryBytes?: number;
+  // Stop reading the archive after this many matches
+  maxMatches?: number;
+  // Called with the path, type and size of every entry, matched or not
+  onEntry?: (entry: ArchiveEntryInfo) => void;
+  // Receive matched entries as they are read instead of collecting them
+  onMatch?: (entry: ArchiveEntry) => void;
+}
+
+/**
+ * Check that a tar entry path stays inside the archive root
+ */
+export function isSafeArchivePath(entryPath: string): boolean {
+  if (entryPath.startsWith('/') || /^[a-zA-Z]:/.test(entryPath)) {
+    return false;
   }
+  return !entryPath.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Convert a glob (*, ** and ?) to a regex. Patterns without a slash are
+ * matched against the entry's file name, others against the whole path.
+ * A leading slash anchors the pattern to the archive root.
+ */
+function createEntryMatcher(pattern: string): (entryPath: string) => boolean {
+  const source = pattern
+    .replace(/^\//, '')
+    .split(/(\*\*|\*|\?)/)
+    .map((part) => {
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  const regex = new RegExp(`^${source}$`);
+  const matchName = !pattern.includes('/');
+
+  return (entryPath) =>
+    regex.test(matchName ? path.posix.basename(entryPath) : entryPath);
+}
+
+/**
+ * Stream a tar or tar.gz archive and return the contents of the entries
+ * matching any of the patterns, without writing anything to disk.
+ * Rejects if the archive contains an absolute or parent-relative path, or
+ * if a matched entry is larger than maxEntryBytes.
+ * @param archivePath Path to the archive
+ * @param patterns File names or globs to match, e.g. error.json or /repositories_*.json
+ * @param options Size budget, match limit and per-entry callbacks
+ * @returns Matched entries in archive order (empty when onMatch is set)
+ */
+export async function readArchiveEntries(
+  archivePath: string,
+  patterns: string[],
+  options: ReadArchiveOptions = {},
+): Promise<ArchiveEntry[]> {
+  const maxEntryBytes = options.maxEntryBytes ?? 10 * 1024 * 1024;
+  const maxMatches = options.maxMatches ?? Infinity;
+  const matchers = patterns.map(createEntryMatcher);
+
+  return new Promise((resolve, reject) => {
+    const input = fs.createReadStream(archivePath);
+    const matches: ArchiveEntry[] = [];
+    let matchCount = 0;
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      input.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(matches);
+      }
+    };
+
+    const parser = new tar.Parser({
+      strict: true,
+      onReadEntry: (entry) => {
+        const entryPath = entry.path.replace(/^\.\//, '');
+
+        if (settled) {
+          entry.resume();
+          return;
+        }
+        if (!isSafeArchivePath(entryPath)) {
+          entry.resume();
+          finish(
+            new Error(`Archive contains an unsafe entry path: ${entryPath}`),
+          );
+          return;
+        }
+        if (options.onEntry) {
+          try {
+            options.onEntry({
+              path: entryPath,
+              type: entry.type,
+              size: entry.size ?? 0,
+            });
+          } catch (error: any) {
+            entry.resume();
+            finish(error);
+            return;
+          }
+        }
+        if (
+          entry.type !== 'File' ||
+          !matchers.some((match) => match(entryPath))
+        ) {
+          entry.resume();
+          return;
+        }
+        if ((entry.size ?? 0) > maxEntryBytes) {
+          entry.resume();
+          finish(
+            new Error(
+              `Archive entry ${entryPath} is ${entry.size} bytes, more than the ${maxEntryBytes} byte limit`,
+            ),
+          );
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+        entry.on('end', () => {
+          if (settled) return;
+          const match = { path: entryPath, content: Buffer.concat(chunks) };
+          if (options.onMatch) {
+            try {
+              options.onMatch(match);
+            } catch (error: any) {
+              finish(error);
+              return;
+            }
+          } else {
+            matches.push(match);
+          }
+          if (++matchCount >= maxMatches) {
+            finish();
+          }
+        });
+      },
+    });
+
+    input.on('error', (error) => finish(error));
+    parser.on('error', (error: Error) => finish(error));
+    parser.on('end', () => finish());
+    input.pipe(parser);
+  });
 }
 
 /**
- * Recursively searches for a file by name in a directory
+ * Finds a file by name in a tar.gz archive and returns its contents
+ * Returns null only when the archive has no such file. Unsafe entry paths,
+ * oversized entries and unreadable archives are rejected with the error
+ * from readArchiveEntries so they are not mistaken for a missing file.
  */
-export async function findFileRecursively(
-  dir: string,
-  fileName: string,
+export async function readFileFromArchive(
+  archivePath: string,
+  targetFileName: string,
 ): Promise<string | null> {
-  const files = fs.readdirSync(dir);
+  const [entry] = await readArchiveEntries(archivePath, [targetFileName], {
+    maxMatches: 1,
+  });
+  return entry ? entry.content.toString('utf8') : null;
+}
+
+/**
+ * Check that a file is a readable tar or tar.gz archive by streaming
+ * through every entry. Truncated gzip data, bad tar headers, missing
+ * entry data and absolute or parent-relative entry paths are all reported
+ * as invalid.
+ * @param archivePath Path to the archive
+ * @returns Whether the archive is valid, the number of entries and the first error
+ */
+export async function verifyArchive(
+  archivePath: string,
+): Promise<ArchiveIntegrity> {
+  return new Promise((resolve) => {
+    let entries = 0;
+    let settled = false;
 
-  for (const file of files) {
-    const filePath = path.join(dir, file);
-    const stat = fs.statSync(filePath);
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      input.destroy();
+      if (error) {
+        resolve({ valid: false, entries, error: error.message });
+      } else if (entries === 0) {
+        resolve({ valid: false, entries, error: 'Archive has no entries' });
+      } else {
+        resolve({ valid: true, entries });
+      }
+    };
 
-    if (stat.isDirectory()) {
-      const result = await findFileRecursively(filePath, fileName);
-      if (result) return result;
-    } else if (file === fileName) {
-      return filePath;
-    }
-  }
+    const input = fs.createReadStream(archivePath);
+    const parser = new tar.Parser({
+      strict: true,
+      onReadEntry: (entry) => {
+        entries++;
+        entry.resume();
+        const entryPath = entry.path.replace(/^\.\//, '');
+        if (!isSafeArchivePath(entryPath)) {
+          finish(
+            new Error(`Archive contains an unsafe entry path: ${entryPath}`),
+          );
+        }
+      },
+    });
 
-  return null;
+    input.on('error', (error) => finish(error));
+    parser.on('error', (error: Error) => finish(error));
+    parser.on('end', () => finish());
+    input.pipe(parser);
+  });
 }
 
 /**
@@ -133,19 +620,26 @@ export function ensureDirectoryExists(dirPath: string): void {
 }
 
 /**
- * Downloads an archive, extracts it, and finds a specific file
- * This is a high-level utility that combines download, extract, and find operations
+ * Downloads an archive and reads a specific file from it
+ * This is a high-level utility that combines download and streaming read operations
+ * The archive is verified first, and a corrupt or unsafe archive is reported
+ * through integrityError rather than looking like a missing file
  */
 export async function downloadExtractAndFindFile(
   downloadUrl: string,
   tempDir: string,
   archiveName: string,
-  extractDirName: string,
   targetFileName: string,
   logger?: any,
-): Promise<{ content: string | null; cleanup: () => Promise<void> }> {
+  downloadOptions: DownloadOptions = {},
+): Promise<{
+  content: string | null;
+  integrityError: string | null;
+  sha256: string;
+  cleanup: () => Promise<void>;
+}> {
   const archivePath = path.join(tempDir, archiveName);
-  const extractDir = path.join(tempDir, extractDirName);
+  const cleanupPaths = [archivePath, `${archivePath}.sha256`];
 
   // Ensure temp directory exists
   ensureDirectoryExists(tempDir);
@@ -155,29 +649,53 @@ export async function downloadExtractAndFindFile(
     if (logger) {
       logger.info(`Downloading archive...`);
     }
-    await downloadFile(downloadUrl, archivePath);
+    const { sha256 } = await downloadFile(downloadUrl, archivePath, {
+      ...downloadOptions,
+      logger,
+    });
+
+    const cleanup = async () => {
+      await cleanupFiles(cleanupPaths, logger);
+    };
 
-    // Extract and find the target file
+    // Check the gzip and tar structure before looking for the file
+    const integrity = await verifyArchive(archivePath);
+    if (!integrity.valid) {
+      if (logger) {
+        logger.error(
+          `Archive ${archiveName} is corrupt (sha256 ${sha256}): ${integrity.error}`,
+        );
+      }
+      return {
+        content: null,
+        integrityError: integrity.error || 'Archive is corrupt',
+        sha256,
+        cleanup,
+      };
+    }
+
+    // Read the target file without extracting the rest of the archive
     if (logger) {
-      logger.info(`Extracting archive to look for ${targetFileName}...`);
+      logger.info(`Reading archive to look for ${targetFileName}...`);
+    }
+    let content: string | null;
+    try {
+      content = await readFileFromArchive(archivePath, targetFileName);
+    } catch (error: any) {
+      // Anything other than a missing file means the archive can't be trusted
+      if (logger) {
+        logger.error(
+          `Archive ${archiveName} could not be read (sha256 ${sha256}): ${error.message}`,
+        );
+      }
+      return { content: null, integrityError: error.message, sha256, cleanup };
     }
-    const content = await extractArchiveAndFindFile(
-      archivePath,
-      extractDir,
-      targetFileName,
-      logger,
-    );
 
     // Return content and cleanup function
-    return {
-      content,
-      cleanup: async () => {
-        await cleanupFiles([archivePath, extractDir], logger);
-      },
-    };
+    return { content, integrityError: null, sha256, cleanup };
   } catch (error) {
     // Cleanup on error
-    await cleanupFiles([archivePath, extractDir], logger);
+    await cleanupFiles(cleanupPaths, logger);
     throw error;
   }
 }
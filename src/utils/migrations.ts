@@ -0,0 +1,107 @@
+import * as fs from 'fs/promises';
+import { Octokit } from 'octokit';
+
+export const MIGRATION_STATES = ['pending', 'exporting', 'exported', 'failed'];
+
+export interface ExportIdPair {
+  metadataExportId: number;
+  gitExportId: number;
+}
+
+export interface ExportIdsFile {
+  exportIds: ExportIdPair[];
+  // Exports that are not part of a pair: single (non-paired) exports, and git
+  // exports whose metadata export failed to start
+  migrationIds?: number[];
+}
+
+/**
+ * Read git and metadata export ID pairs, and any unpaired export IDs, from a JSON file
+ * @param filePath Path to a JSON file in the { exportIds: [...], migrationIds?: [...] } format
+ * @returns Export ID pairs and unpaired export IDs (empty when the file has none)
+ */
+export async function readExportIdsFromFile(
+  filePath: string,
+): Promise<Required<ExportIdsFile>> {
+  try {
+    const fileContent = await fs.readFile(filePath, 'utf-8');
+    const data: ExportIdsFile = JSON.parse(fileContent);
+
+    if (!data.exportIds || !Array.isArray(data.exportIds)) {
+      throw new Error('JSON file must contain an "exportIds" array');
+    }
+    if (
+      data.migrationIds !== undefined &&
+      (!Array.isArray(data.migrationIds) ||
+        !data.migrationIds.every((id) => Number.isInteger(id)))
+    ) {
+      throw new Error('"migrationIds" must be an array of export IDs');
+    }
+
+    return { exportIds: data.exportIds, migrationIds: data.migrationIds ?? [] };
+  } catch (error) {
+    throw new Error(`Failed to read or parse JSON file: ${error}`);
+  }
+}
+
+/**
+ * Write git and metadata export ID pairs to a JSON file that can be read
+ * back with readExportIdsFromFile
+ * @param filePath Path of the JSON file to write
+ * @param exportIds Export ID pairs
+ * @param migrationIds IDs of exports that are not part of a pair
+ */
+export async function writeExportIdsToFile(
+  filePath: string,
+  exportIds: ExportIdPair[],
+  migrationIds: number[] = [],
+): Promise<void> {
+  const data: ExportIdsFile =
+    migrationIds.length > 0 ? { exportIds, migrationIds } : { exportIds };
+  await fs.writeFile(filePath, JSON.stringify(data, null, 2) + '\n');
+}
+
+/**
+ * Normalize the error.json shapes found in migration archives
+ * ({ error }, { errors: [...] } or a bare array) to a list of messages
+ */
+export function normalizeMigrationErrors(errorData: any): string[] {
+  const toMessage = (error: any): string =>
+    typeof error === 'string'
+      ? error
+      : error.error || error.message || JSON.stringify(error);
+
+  if (errorData.error) {
+    return [errorData.error];
+  } else if (errorData.errors && Array.isArray(errorData.errors)) {
+    return errorData.errors.map(toMessage);
+  } else if (Array.isArray(errorData)) {
+    return errorData.map(toMessage);
+  }
+  return [JSON.stringify(errorData)];
+}
+
+/**
+ * Get the short-lived download URL of a migration archive without
+ * downloading the archive itself
+ * @param octokit Octokit instance
+ * @param orgName Organization name
+ * @param migrationId Migration ID
+ * @returns The archive URL, or null if the API did not return one
+ */
+export async function getMigrationArchiveUrl(
+  octokit: Octokit,
+  orgName: string,
+  migrationId: number,
+): Promise<string | null> {
+  const response = await octokit.request(
+    'GET /orgs/{org}/migrations/{migration_id}/archive',
+    {
+      org: orgName,
+      migration_id: migrationId,
+      request: { redirect: 'manual' },
+    },
+  );
+
+  return response.headers.location || null;
+}
@@ -0,0 +1,257 @@
+import { promises as dns } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+
+export type HostHealth = 'healthy' | 'degraded' | 'unreachable';
+
+export interface ProbeOptions {
+  timeoutMs: number;
+  sendHead: boolean;
+  expiryWarningDays: number;
+  ca?: string | Buffer;
+}
+
+export interface HostProbeResult {
+  baseUrl: string;
+  host: string;
+  port: number;
+  health: HostHealth;
+  addresses: string[];
+  dnsError?: string;
+  connectError?: string;
+  tlsAuthorized?: boolean;
+  tlsError?: string;
+  certSubject?: string;
+  certIssuer?: string;
+  certValidTo?: string;
+  certDaysRemaining?: number;
+  headStatus?: number;
+  headError?: string;
+  durationMs: number;
+}
+
+/**
+ * Rejects with a timeout error if the promise does not settle in time
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  label: string,
+): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${label} timed out after ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function describeCertName(name: tls.PeerCertificate['subject']): string {
+  if (!name) return '';
+  const value = name.CN || name.O || '';
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Open a TLS connection and read the peer certificate.
+ * Certificate problems are reported rather than treated as connection failures.
+ */
+function checkTls(
+  host: string,
+  port: number,
+  options: ProbeOptions,
+): Promise<{
+  authorized: boolean;
+  authorizationError?: string;
+  certificate: tls.PeerCertificate;
+}> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({
+      host,
+      port,
+      servername: net.isIP(host) ? undefined : host,
+      ca: options.ca,
+      rejectUnauthorized: false,
+      timeout: options.timeoutMs,
+    });
+
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      const authorizationError = socket.authorizationError
+        ? String(socket.authorizationError)
+        : undefined;
+      resolve({
+        authorized: socket.authorized,
+        authorizationError,
+        certificate,
+      });
+      socket.end();
+    });
+    socket.once('timeout', () => {
+      socket.destroy(
+        new Error(`TLS handshake timed out after ${options.timeoutMs}ms`),
+      );
+    });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Open and immediately close a plain TCP connection
+ */
+function checkTcp(
+  host: string,
+  port: number,
+  timeoutMs: number,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port, timeout: timeoutMs });
+    socket.once('connect', () => {
+      socket.end();
+      resolve();
+    });
+    socket.once('timeout', () => {
+      socket.destroy(new Error(`TCP connect timed out after ${timeoutMs}ms`));
+    });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Send a HEAD request to the base URL and return the status code
+ */
+function sendHead(baseUrl: string, options: ProbeOptions): Promise<number> {
+  const protocol = baseUrl.startsWith('https:') ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = protocol.request(
+      baseUrl,
+      {
+        method: 'HEAD',
+        timeout: options.timeoutMs,
+        ...(baseUrl.startsWith('https:')
+          ? { ca: options.ca, rejectUnauthorized: false }
+          : {}),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      },
+    );
+    request.once('timeout', () => {
+      request.destroy(
+        new Error(`HEAD request timed out after ${options.timeoutMs}ms`),
+      );
+    });
+    request.once('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Check whether a webhook base URL still answers: resolve DNS, open a TLS
+ * connection (or plain TCP connection for http) and optionally send a HEAD request
+ * @param baseUrl Base URL (protocol and host) to probe
+ * @param options Timeout and probe options
+ * @returns Host health details
+ */
+export async function probeHost(
+  baseUrl: string,
+  options: ProbeOptions,
+): Promise<HostProbeResult> {
+  const startTime = Date.now();
+  const url = new URL(baseUrl);
+  const isHttps = url.protocol === 'https:';
+  const port = url.port ? parseInt(url.port, 10) : isHttps ? 443 : 80;
+
+  const result: HostProbeResult = {
+    baseUrl,
+    host: url.hostname,
+    port,
+    health: 'healthy',
+    addresses: [],
+    durationMs: 0,
+  };
+
+  const finish = (health: HostHealth): HostProbeResult => {
+    result.health = health;
+    result.durationMs = Date.now() - startTime;
+    return result;
+  };
+
+  try {
+    const addresses = await withTimeout(
+      dns.lookup(url.hostname, { all: true }),
+      options.timeoutMs,
+      'DNS lookup',
+    );
+    result.addresses = addresses.map((a) => a.address);
+  } catch (error: any) {
+    result.dnsError = error.code || error.message;
+    return finish('unreachable');
+  }
+
+  let degraded = false;
+
+  if (isHttps) {
+    try {
+      const { authorized, authorizationError, certificate } = await checkTls(
+        url.hostname,
+        port,
+        options,
+      );
+
+      result.tlsAuthorized = authorized;
+      result.tlsError = authorizationError;
+      result.certSubject = describeCertName(certificate.subject);
+      result.certIssuer = describeCertName(certificate.issuer);
+
+      if (certificate.valid_to) {
+        const validTo = new Date(certificate.valid_to);
+        result.certValidTo = validTo.toISOString();
+        result.certDaysRemaining = Math.floor(
+          (validTo.getTime() - Date.now()) / (24 * 60 * 60 * 1000),
+        );
+      }
+
+      if (
+        !authorized ||
+        (result.certDaysRemaining !== undefined &&
+          result.certDaysRemaining < options.expiryWarningDays)
+      ) {
+        degraded = true;
+      }
+    } catch (error: any) {
+      result.tlsError = error.code || error.message;
+      return finish('unreachable');
+    }
+  } else {
+    try {
+      await checkTcp(url.hostname, port, options.timeoutMs);
+    } catch (error: any) {
+      result.connectError = error.code || error.message;
+      return finish('unreachable');
+    }
+  }
+
+  if (options.sendHead) {
+    try {
+      result.headStatus = await sendHead(
+        `${url.protocol}//${url.host}/`,
+        options,
+      );
+      if (result.headStatus >= 500) {
+        degraded = true;
+      }
+    } catch (error: any) {
+      result.headError = error.code || error.message;
+      return finish('degraded');
+    }
+  }
+
+  return finish(degraded ? 'degraded' : 'healthy');
+}
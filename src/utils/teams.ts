@@ -1,41 +1,374 @@
 import { Octokit } from 'octokit';
 
+export type TeamRole = 'member' | 'maintainer';
+
+/**
+ * Which members to include: everyone with access through the team (including
+ * members of child teams) or only members added to the team directly
+ */
+export type TeamMembershipType = 'all' | 'immediate';
+
+export interface TeamMember {
+  login: string;
+  role: TeamRole;
+}
+
+export interface TeamDetails {
+  slug: string;
+  name: string;
+  description: string | null;
+  privacy: string;
+  parentSlug: string | null;
+}
+
+interface TeamMembersResponse {
+  organization: {
+    team: {
+      members: {
+        edges: {
+          role: 'MAINTAINER' | 'MEMBER';
+          node: { login: string };
+        }[];
+        pageInfo: {
+          hasNextPage: boolean;
+          endCursor: string | null;
+        };
+      };
+    } | null;
+  };
+}
+
+const TEAM_MEMBERS_QUERY = `
+query($organization: String!, $teamSlug: String!, $membership: TeamMembershipType!, $pageSize: Int!, $endCursor: String) {
+  organization(login: $organization) {
+    team(slug: $teamSlug) {
+      members(first: $pageSize, after: $endCursor, membership: $membership) {
+        edges {
+          role
+          node {
+            login
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+}`;
+
 /**
- * Get team members with caching
+ * Get team members and their team role with caching
  * @param octokit Octokit instance
  * @param orgName Organization name
  * @param teamSlug Team slug (URL-safe name)
  * @param teamName Team display name
  * @param teamMap Cache map for team members
  * @param logger Logger instance
- * @returns Array of member login names
+ * @param membership Include child team members ('all') or only direct members ('immediate')
+ * @returns Array of members with their role in the team
  */
 export async function getTeamMembers(
   octokit: Octokit,
   orgName: string,
   teamSlug: string,
   teamName: string,
-  teamMap: Map<string, string[]>,
+  teamMap: Map<string, TeamMember[]>,
   logger: any,
-): Promise<string[]> {
-  if (teamMap.has(teamSlug)) {
-    return teamMap.get(teamSlug)!;
+  membership: TeamMembershipType = 'all',
+): Promise<TeamMember[]> {
+  const cacheKey =
+    membership === 'all' ? teamSlug : `${teamSlug}:${membership}`;
+  if (teamMap.has(cacheKey)) {
+    return teamMap.get(cacheKey)!;
   }
 
   logger.info(`Fetching members for team: ${teamName}`);
-  const membersResponse = await octokit.paginate(
-    octokit.rest.teams.listMembersInOrg,
-    {
-      org: orgName,
-      team_slug: teamSlug,
-      per_page: 100,
-    },
-  );
-  const members = membersResponse.map((m: any) => m.login);
-  teamMap.set(teamSlug, members);
+
+  const members: TeamMember[] = [];
+  let hasNextPage = true;
+  let endCursor: string | null = null;
+
+  while (hasNextPage) {
+    const response: TeamMembersResponse =
+      await octokit.graphql<TeamMembersResponse>(TEAM_MEMBERS_QUERY, {
+        organization: orgName,
+        teamSlug,
+        membership: membership.toUpperCase(),
+        pageSize: 100,
+        endCursor,
+      });
+
+    const team = response.organization.team;
+    if (!team) {
+      throw new Error(`Team ${teamSlug} not found in ${orgName}`);
+    }
+
+    for (const edge of team.members.edges) {
+      members.push({
+        login: edge.node.login,
+        role: edge.role === 'MAINTAINER' ? 'maintainer' : 'member',
+      });
+    }
+
+    hasNextPage = team.members.pageInfo.hasNextPage;
+    endCursor = team.members.pageInfo.endCursor;
+  }
+
+  teamMap.set(cacheKey, members);
   return members;
 }
 
+/**
+ * Get the immediate child teams of a team
+ * @param octokit Octokit instance
+ * @param orgName Organization name
+ * @param teamSlug Team slug (URL-safe name)
+ * @returns Array of child team details
+ */
+export async function getChildTeams(
+  octokit: Octokit,
+  orgName: string,
+  teamSlug: string,
+): Promise<TeamDetails[]> {
+  const children = await octokit.paginate(octokit.rest.teams.listChildInOrg, {
+    org: orgName,
+    team_slug: teamSlug,
+    per_page: 100,
+  });
+
+  return children.map((child) => ({
+    slug: child.slug,
+    name: child.name,
+    description: child.description,
+    privacy: child.privacy || '',
+    parentSlug: teamSlug,
+  }));
+}
+
+export interface UnresolvedTeam {
+  input: string;
+  reason: 'not-found' | 'ambiguous';
+  suggestions: string[];
+}
+
+export interface TeamResolution {
+  teams: TeamDetails[];
+  unresolved: UnresolvedTeam[];
+}
+
+/**
+ * List all teams in an organization
+ * @param octokit Octokit instance
+ * @param orgName Organization name
+ * @returns Array of team details
+ */
+export async function listOrganizationTeams(
+  octokit: Octokit,
+  orgName: string,
+): Promise<TeamDetails[]> {
+  const teams = await octokit.paginate(octokit.rest.teams.list, {
+    org: orgName,
+    per_page: 100,
+  });
+
+  return teams.map((team) => ({
+    slug: team.slug,
+    name: team.name,
+    description: team.description,
+    privacy: team.privacy || '',
+    parentSlug: team.parent?.slug || null,
+  }));
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find the teams whose slug or name is closest to the input
+ */
+function suggestTeams(input: string, orgTeams: TeamDetails[]): string[] {
+  const value = input.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+
+  return orgTeams
+    .map((team) => {
+      const slug = team.slug.toLowerCase();
+      const name = team.name.toLowerCase();
+      const isSubstring =
+        slug.includes(value) ||
+        name.includes(value) ||
+        value.includes(slug) ||
+        value.includes(name);
+      const distance = isSubstring
+        ? 0
+        : Math.min(
+            levenshteinDistance(value, slug),
+            levenshteinDistance(value, name),
+          );
+      return { team, distance };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ team }) => team.slug);
+}
+
+/**
+ * Convert a wildcard pattern such as platform-* to a case-insensitive regex
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Resolve team slugs, display names or wildcard patterns to teams.
+ * Slugs and names are matched case-insensitively; a pattern containing *
+ * selects every team whose slug or name matches it.
+ * @param inputs Team slugs, names or patterns
+ * @param orgTeams All teams in the organization (see listOrganizationTeams)
+ * @returns Resolved teams (deduplicated) and inputs that could not be resolved
+ */
+export function resolveTeams(
+  inputs: string[],
+  orgTeams: TeamDetails[],
+): TeamResolution {
+  const resolved = new Map<string, TeamDetails>();
+  const unresolved: UnresolvedTeam[] = [];
+
+  for (const input of inputs) {
+    const value = input.toLowerCase();
+    let matches: TeamDetails[];
+
+    if (input.includes('*')) {
+      const pattern = wildcardToRegExp(input);
+      matches = orgTeams.filter(
+        (team) => pattern.test(team.slug) || pattern.test(team.name),
+      );
+    } else {
+      const slugMatch = orgTeams.find(
+        (team) => team.slug.toLowerCase() === value,
+      );
+      matches = slugMatch
+        ? [slugMatch]
+        : orgTeams.filter((team) => team.name.toLowerCase() === value);
+
+      if (matches.length > 1) {
+        unresolved.push({
+          input,
+          reason: 'ambiguous',
+          suggestions: matches.map((team) => team.slug),
+        });
+        continue;
+      }
+    }
+
+    if (matches.length === 0) {
+      unresolved.push({
+        input,
+        reason: 'not-found',
+        suggestions: input.includes('*') ? [] : suggestTeams(input, orgTeams),
+      });
+      continue;
+    }
+
+    for (const team of matches) {
+      resolved.set(team.slug, team);
+    }
+  }
+
+  return { teams: Array.from(resolved.values()), unresolved };
+}
+
+export interface TeamRepositoryPermission {
+  repository: string;
+  // Role name, either a base permission or a custom repository role
+  permission: string;
+  // Highest base permission included in the role
+  basePermission: string;
+}
+
+// Base repository permissions from lowest to highest
+const PERMISSION_LEVELS = ['pull', 'triage', 'push', 'maintain', 'admin'];
+
+// Role names the API reports for the base permissions
+const BASE_ROLE_NAMES = ['read', 'triage', 'write', 'maintain', 'admin'];
+
+/**
+ * Rank a repository permission so grants can be compared.
+ * Custom repository roles rank just above the base permission they extend.
+ * @param grant Repository permission
+ * @returns Numeric rank, higher means more access
+ */
+export function permissionRank(grant: TeamRepositoryPermission): number {
+  const rank = PERMISSION_LEVELS.indexOf(grant.basePermission) * 2;
+  return grant.permission === grant.basePermission ? rank : rank + 1;
+}
+
+/**
+ * Get the repositories a team has been granted access to, with caching.
+ * Only direct grants are returned, not those inherited from a parent team.
+ * @param octokit Octokit instance
+ * @param orgName Organization name
+ * @param teamSlug Team slug (URL-safe name)
+ * @param repoMap Cache map for team repositories
+ * @returns Array of repository names with the team's permission
+ */
+export async function getTeamRepositories(
+  octokit: Octokit,
+  orgName: string,
+  teamSlug: string,
+  repoMap: Map<string, TeamRepositoryPermission[]>,
+): Promise<TeamRepositoryPermission[]> {
+  if (repoMap.has(teamSlug)) {
+    return repoMap.get(teamSlug)!;
+  }
+
+  const repos = await octokit.paginate(octokit.rest.teams.listReposInOrg, {
+    org: orgName,
+    team_slug: teamSlug,
+    per_page: 100,
+  });
+
+  const permissions = repos.map((repo) => {
+    const basePermission =
+      [...PERMISSION_LEVELS]
+        .reverse()
+        .find(
+          (level) => repo.permissions?.[level as keyof typeof repo.permissions],
+        ) || 'pull';
+    return {
+      repository: repo.name,
+      permission:
+        repo.role_name && !BASE_ROLE_NAMES.includes(repo.role_name)
+          ? repo.role_name
+          : basePermission,
+      basePermission,
+    };
+  });
+
+  repoMap.set(teamSlug, permissions);
+  return permissions;
+}
+
 /**
  * Parse comma-separated team names and trim them
  * @param teamsInput Comma-separated string of team names
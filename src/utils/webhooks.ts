@@ -0,0 +1,458 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Octokit } from 'octokit';
+
+export type WebhookScope = 'org' | 'repo' | 'all';
+
+export interface WebhookData {
+  type: 'Organization' | 'Repository';
+  organizationName: string;
+  repositoryName?: string;
+  id: number;
+  name: string;
+  active: boolean;
+  hasSecret: boolean;
+  events: string[];
+  url: string;
+  contentType?: string;
+  insecureSSL?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastResponseCode?: number | null;
+  lastResponseStatus?: string;
+  lastResponseMessage?: string | null;
+}
+
+export interface WebhookListOptions {
+  scope: WebhookScope;
+  onlyActiveRepos: boolean;
+  onlyActiveWebhooks: boolean;
+}
+
+export interface WebhookListFailure {
+  type: 'Organization' | 'Repository';
+  repositoryName?: string;
+  message: string;
+}
+
+export interface WebhookListStats {
+  processedRepos: number;
+  // Organizations or repositories whose webhooks could not be listed
+  failures: WebhookListFailure[];
+}
+
+export type WebhookRef = Pick<
+  WebhookData,
+  'type' | 'organizationName' | 'repositoryName' | 'id'
+>;
+
+export interface WebhookConfigUpdate {
+  url?: string;
+  content_type?: string;
+  insecure_ssl?: string;
+}
+
+export interface WebhookDefinition {
+  id: number;
+  name: string;
+  events: string[];
+  url: string;
+  contentType?: string;
+  insecureSSL?: string;
+  active: boolean;
+  hasSecret: boolean;
+}
+
+export interface WebhookManifest {
+  organization: string;
+  exportedAt: string;
+  organizationWebhooks: WebhookDefinition[];
+  repositories: Record<string, WebhookDefinition[]>;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  guid: string;
+  deliveredAt: string;
+  redelivery: boolean;
+  duration: number;
+  status: string;
+  statusCode: number;
+  event: string;
+  action: string | null;
+}
+
+/**
+ * Get the base URL (protocol and host) of a webhook URL
+ * @param webhookUrl Webhook target URL
+ * @returns Base URL, or null when the URL cannot be parsed
+ */
+export function getBaseUrl(webhookUrl: string): string | null {
+  try {
+    const url = new URL(webhookUrl);
+    return `${url.protocol}//${url.host}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a webhook URL without its query string
+ * @param webhookUrl Webhook target URL
+ * @returns URL without query, or null when the URL cannot be parsed
+ */
+export function getUrlWithoutQuery(webhookUrl: string): string | null {
+  try {
+    const url = new URL(webhookUrl);
+    return `${url.protocol}//${url.host}${url.pathname}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Enumerate organization and/or repository webhooks for an organization
+ * @param octokit Octokit instance
+ * @param orgName Organization name
+ * @param listOptions Scope and filtering options
+ * @param logger Logger instance
+ * @param stats Optional counters and listing failures updated while enumerating
+ * @returns Async generator of webhook data
+ */
+export async function* listOrganizationWebhooks(
+  octokit: Octokit,
+  orgName: string,
+  listOptions: WebhookListOptions,
+  logger: any,
+  stats?: WebhookListStats,
+): AsyncGenerator<WebhookData, void, unknown> {
+  if (listOptions.scope !== 'repo') {
+    logger.info('Fetching organization webhooks...');
+
+    try {
+      const orgWebhooksIterator = octokit.paginate.iterator(
+        octokit.rest.orgs.listWebhooks,
+        {
+          org: orgName,
+          per_page: 100,
+        },
+      );
+
+      for await (const { data: orgWebhooks } of orgWebhooksIterator) {
+        for (const webhook of orgWebhooks) {
+          // Organization hooks do not report a last response, so rely on the active flag
+          if (listOptions.onlyActiveWebhooks === true && !webhook.active) {
+            logger.info(
+              `Skipping inactive organization webhook: ${webhook.name} (${webhook.id})`,
+            );
+            continue;
+          }
+
+          logger.info(
+            `Found org webhook: ${webhook.name} (${webhook.id}) - ${webhook.config?.url}`,
+          );
+
+          yield {
+            type: 'Organization',
+            organizationName: orgName,
+            id: webhook.id,
+            name: webhook.name,
+            active: webhook.active,
+            hasSecret: Boolean(webhook.config?.secret),
+            events: webhook.events,
+            url: webhook.config?.url || 'N/A',
+            contentType: webhook.config?.content_type,
+            insecureSSL: webhook.config?.insecure_ssl?.toString(),
+            createdAt: webhook.created_at,
+            updatedAt: webhook.updated_at,
+            lastResponseStatus: 'N/A',
+          };
+        }
+      }
+    } catch (error: any) {
+      logger.warn(
+        `Error fetching webhooks for organization ${orgName}: ${error.message}`,
+      );
+      stats?.failures.push({ type: 'Organization', message: error.message });
+    }
+  }
+
+  if (listOptions.scope === 'org') {
+    return;
+  }
+
+  logger.info('Fetching repository webhooks...');
+
+  // Get all repositories in the organization
+  const repoIterator = octokit.paginate.iterator(
+    octokit.rest.repos.listForOrg,
+    {
+      org: orgName,
+      per_page: 100,
+      type: 'all',
+    },
+  );
+
+  let totalRepos = 0;
+  let processedRepos = 0;
+
+  for await (const { data: repos } of repoIterator) {
+    totalRepos += repos.length;
+
+    for (const repo of repos) {
+      // Skip archived repositories if only active ones are requested
+      if (listOptions.onlyActiveRepos === true && repo.archived === true) {
+        logger.info(`Skipping archived repository: ${repo.name}`);
+        continue;
+      }
+
+      processedRepos++;
+      if (stats) {
+        stats.processedRepos = processedRepos;
+      }
+      logger.info(
+        `Processing repository ${processedRepos}/${totalRepos}: ${repo.name}`,
+      );
+
+      try {
+        const repoWebhooksIterator = octokit.paginate.iterator(
+          octokit.rest.repos.listWebhooks,
+          {
+            owner: orgName,
+            repo: repo.name,
+            per_page: 100,
+          },
+        );
+
+        for await (const { data: repoWebhooks } of repoWebhooksIterator) {
+          for (const webhook of repoWebhooks) {
+            if (
+              listOptions.onlyActiveWebhooks === true &&
+              webhook.last_response?.status !== 'active'
+            ) {
+              logger.info(
+                `Skipping inactive webhook: ${webhook.name} (${webhook.id}) in ${repo.name} with status ${webhook.last_response?.status}`,
+              );
+              continue;
+            }
+
+            logger.info(
+              `Found repo webhook: ${repo.name}/${webhook.name} (${webhook.id}) - ${webhook.config?.url}`,
+            );
+
+            yield {
+              type: 'Repository',
+              organizationName: orgName,
+              repositoryName: repo.name,
+              id: webhook.id,
+              name: webhook.name,
+              active: webhook.active,
+              hasSecret: Boolean(webhook.config?.secret),
+              events: webhook.events,
+              url: webhook.config?.url || 'N/A',
+              contentType: webhook.config?.content_type,
+              insecureSSL: webhook.config?.insecure_ssl?.toString(),
+              createdAt: webhook.created_at,
+              updatedAt: webhook.updated_at,
+              lastResponseCode: webhook.last_response?.code,
+              lastResponseStatus: webhook.last_response?.status || 'N/A',
+              lastResponseMessage: webhook.last_response?.message,
+            };
+          }
+        }
+      } catch (error: any) {
+        logger.warn(
+          `Error fetching webhooks for repository ${repo.name}: ${error.message}`,
+        );
+        stats?.failures.push({
+          type: 'Repository',
+          repositoryName: repo.name,
+          message: error.message,
+        });
+        // Continue processing other repositories
+      }
+    }
+  }
+}
+
+/**
+ * Get recent deliveries for an organization or repository webhook, newest first
+ * @param octokit Octokit instance
+ * @param webhook Webhook to fetch deliveries for
+ * @param since Only include deliveries at or after this date (null for no limit)
+ * @param maxDeliveries Maximum number of deliveries inside the window to return
+ * @param until End of the window (null for now). Successful deliveries after
+ * it are still returned so later redeliveries can be recognised, but they do
+ * not count towards maxDeliveries
+ * @returns Array of deliveries
+ */
+export async function getWebhookDeliveries(
+  octokit: Octokit,
+  webhook: WebhookData,
+  since: Date | null,
+  maxDeliveries: number,
+  until: Date | null = null,
+): Promise<WebhookDelivery[]> {
+  const deliveries: WebhookDelivery[] = [];
+  let inWindow = 0;
+
+  const deliveriesIterator =
+    webhook.type === 'Organization'
+      ? octokit.paginate.iterator(octokit.rest.orgs.listWebhookDeliveries, {
+          org: webhook.organizationName,
+          hook_id: webhook.id,
+          per_page: 100,
+        })
+      : octokit.paginate.iterator(octokit.rest.repos.listWebhookDeliveries, {
+          owner: webhook.organizationName,
+          repo: webhook.repositoryName!,
+          hook_id: webhook.id,
+          per_page: 100,
+        });
+
+  for await (const { data: page } of deliveriesIterator) {
+    for (const delivery of page) {
+      const deliveredAt = new Date(delivery.delivered_at);
+
+      // Deliveries are returned newest first, so stop once we pass the window
+      if (since && deliveredAt < since) {
+        return deliveries;
+      }
+
+      const entry: WebhookDelivery = {
+        id: delivery.id,
+        guid: delivery.guid,
+        deliveredAt: delivery.delivered_at,
+        redelivery: delivery.redelivery,
+        duration: delivery.duration,
+        status: delivery.status,
+        statusCode: delivery.status_code,
+        event: delivery.event,
+        action: delivery.action,
+      };
+
+      const afterWindow = until !== null && deliveredAt > until;
+      if (afterWindow && !isSuccessfulDelivery(entry)) {
+        continue;
+      }
+      deliveries.push(entry);
+
+      if (!afterWindow && ++inWindow >= maxDeliveries) {
+        return deliveries;
+      }
+    }
+  }
+
+  return deliveries;
+}
+
+/**
+ * Whether a delivery received a successful (2xx) response
+ */
+export function isSuccessfulDelivery(delivery: WebhookDelivery): boolean {
+  return delivery.statusCode >= 200 && delivery.statusCode < 300;
+}
+
+/**
+ * Request redelivery of a webhook delivery
+ * @param octokit Octokit instance
+ * @param webhook Webhook the delivery belongs to
+ * @param deliveryId ID of the delivery to redeliver
+ * @returns Raw API response (202 when the redelivery was accepted)
+ */
+export async function redeliverWebhookDelivery(
+  octokit: Octokit,
+  webhook: WebhookData,
+  deliveryId: number,
+) {
+  if (webhook.type === 'Organization') {
+    return octokit.rest.orgs.redeliverWebhookDelivery({
+      org: webhook.organizationName,
+      hook_id: webhook.id,
+      delivery_id: deliveryId,
+    });
+  }
+
+  return octokit.rest.repos.redeliverWebhookDelivery({
+    owner: webhook.organizationName,
+    repo: webhook.repositoryName!,
+    hook_id: webhook.id,
+    delivery_id: deliveryId,
+  });
+}
+
+/**
+ * Update the configuration of an organization or repository webhook.
+ * Fields that are not provided (including the secret) are left unchanged.
+ * @param octokit Octokit instance
+ * @param webhook Webhook to update
+ * @param config Configuration fields to change
+ */
+export async function updateWebhookConfig(
+  octokit: Octokit,
+  webhook: WebhookRef,
+  config: WebhookConfigUpdate,
+) {
+  if (webhook.type === 'Organization') {
+    return octokit.rest.orgs.updateWebhookConfigForOrg({
+      org: webhook.organizationName,
+      hook_id: webhook.id,
+      ...config,
+    });
+  }
+
+  return octokit.rest.repos.updateWebhookConfigForRepo({
+    owner: webhook.organizationName,
+    repo: webhook.repositoryName!,
+    hook_id: webhook.id,
+    ...config,
+  });
+}
+
+/**
+ * Convert enumerated webhook data to a portable definition for a manifest
+ */
+export function toWebhookDefinition(webhook: WebhookData): WebhookDefinition {
+  return {
+    id: webhook.id,
+    name: webhook.name,
+    events: webhook.events,
+    url: webhook.url,
+    contentType: webhook.contentType,
+    insecureSSL: webhook.insecureSSL,
+    active: webhook.active,
+    hasSecret: webhook.hasSecret,
+  };
+}
+
+/**
+ * Short label for a webhook used in log messages
+ */
+export function describeWebhook(webhook: WebhookRef): string {
+  return webhook.type === 'Organization'
+    ? `org hook ${webhook.id}`
+    : `${webhook.repositoryName} hook ${webhook.id}`;
+}
+
+/**
+ * Verify an X-Hub-Signature-256 header against the raw payload
+ * @param secret Webhook secret
+ * @param rawBody Raw request body exactly as delivered
+ * @param signatureHeader Value of the X-Hub-Signature-256 header
+ * @returns Whether the signature matches
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: Buffer | string,
+  signatureHeader: string | undefined,
+): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`,
+  );
+  const actual = Buffer.from(signatureHeader);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}